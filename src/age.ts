@@ -0,0 +1,231 @@
+/**
+ * Participant age normalization
+ *
+ * `dandisets_participant.age` is free text: mostly ISO 8601 durations
+ * (`P90D`, `P12W`), sometimes ISO intervals of durations (`P8W/P16W`),
+ * spelled-out units (`8-16 weeks`), developmental notation (`P21` for
+ * postnatal day 21, `E15.5` for embryonic day 15.5) or the DANDI JSON form
+ * with a `valueReference`. Ages are normalized to a day range plus the
+ * reference point they count from, so they can be compared numerically.
+ */
+
+export const AGE_REFERENCES = ["birth", "gestational"] as const;
+
+export type AgeReference = typeof AGE_REFERENCES[number];
+
+export interface ParsedAge {
+  min_days: number;
+  /** null for open-ended ranges such as `P8W/` */
+  max_days: number | null;
+  reference: AgeReference;
+}
+
+export interface AgeFilter {
+  min_days?: number;
+  max_days?: number;
+  reference: AgeReference;
+}
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  year: 365.25,
+  month: 30.4375,
+  week: 7,
+  day: 1,
+  hour: 1 / 24,
+  minute: 1 / 1440,
+  second: 1 / 86400,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  y: "year", yr: "year", yrs: "year", year: "year", years: "year",
+  mo: "month", mos: "month", month: "month", months: "month",
+  w: "week", wk: "week", wks: "week", week: "week", weeks: "week",
+  d: "day", day: "day", days: "day",
+  h: "hour", hr: "hour", hrs: "hour", hour: "hour", hours: "hour",
+  min: "minute", mins: "minute", minute: "minute", minutes: "minute",
+  s: "second", sec: "second", secs: "second", second: "second", seconds: "second",
+};
+
+const ISO_DURATION = /^P(?!$)(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?=\d)(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+const NUMBER = "(\\d+(?:[.,]\\d+)?)";
+const UNIT = "([a-z]+)";
+const TEXT_RANGE = new RegExp(`^${NUMBER}\\s*${UNIT}?\\s*(?:-|–|to)\\s*${NUMBER}\\s*${UNIT}$`, "i");
+const TEXT_SINGLE = new RegExp(`^${NUMBER}\\s*${UNIT}$`, "i");
+const DEVELOPMENTAL = /^([PE])(\d+(?:\.\d+)?)$/i;
+
+const round = (days: number) => Math.round(days * 1000) / 1000;
+const toNumber = (text: string) => Number(text.replace(",", "."));
+
+/**
+ * Days in one ISO 8601 duration, or undefined if `text` is not one
+ */
+function parseIsoDuration(text: string): number | undefined {
+  const match = ISO_DURATION.exec(text);
+  if (!match) return undefined;
+  const [, years, months, weeks, days, hours, minutes, seconds] = match;
+  const parts: [string | undefined, string][] = [
+    [years, "year"], [months, "month"], [weeks, "week"], [days, "day"],
+    [hours, "hour"], [minutes, "minute"], [seconds, "second"],
+  ];
+  return parts.reduce((total, [value, unit]) => total + (value ? toNumber(value) * DAYS_PER_UNIT[unit] : 0), 0);
+}
+
+function unitDays(unit: string): number | undefined {
+  const canonical = UNIT_ALIASES[unit.toLowerCase()];
+  return canonical ? DAYS_PER_UNIT[canonical] : undefined;
+}
+
+/**
+ * A single age value (no range): ISO duration, "<n> <unit>", P<n>, E<n>
+ */
+function parseSingle(text: string): { days: number; reference?: AgeReference } | undefined {
+  const iso = parseIsoDuration(text);
+  if (iso !== undefined) return { days: iso };
+
+  const developmental = DEVELOPMENTAL.exec(text);
+  if (developmental) {
+    return {
+      days: toNumber(developmental[2]),
+      reference: developmental[1].toUpperCase() === "E" ? "gestational" : "birth",
+    };
+  }
+
+  const single = TEXT_SINGLE.exec(text);
+  if (single) {
+    const perUnit = unitDays(single[2]);
+    if (perUnit !== undefined) return { days: toNumber(single[1]) * perUnit };
+  }
+  return undefined;
+}
+
+function detectReference(text: string): AgeReference | undefined {
+  if (/gestation|embryonic|\bGA\b|post[- ]?conception/i.test(text)) return "gestational";
+  if (/birth|postnatal/i.test(text)) return "birth";
+  return undefined;
+}
+
+/**
+ * Normalize a raw age value. Returns undefined when it cannot be parsed.
+ */
+export function parseAge(raw: unknown): ParsedAge | undefined {
+  if (raw === null || raw === undefined) return undefined;
+  let text = String(raw).trim();
+  let reference: AgeReference | undefined;
+
+  // DANDI schema form: {"value": "P90D", "valueReference": "dandi:BirthReference"}
+  if (text.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(text);
+      reference = detectReference(String(parsed?.valueReference ?? ""));
+      text = String(parsed?.value ?? "").trim();
+    } catch {
+      return undefined;
+    }
+  }
+  if (!text) return undefined;
+
+  reference ??= detectReference(text);
+  // Drop reference words, qualifiers and parenthesized notes
+  text = text
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\b(?:approx|ca)\./gi, " ")
+    .replace(/\b(?:dandi:)?(?:birth|gestational)reference\b/gi, " ")
+    .replace(/\b(?:approx(?:imately)?|about|ca\.?|old|of age|age|postnatal|gestational|embryonic|post[- ]?conception|from birth)\b|~|≈/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // ISO interval of durations, possibly open-ended: P8W/P16W, P8W/
+  if (text.includes("/")) {
+    const [start, end] = text.split("/").map(part => part.trim());
+    const min = start ? parseSingle(start) : { days: 0 };
+    const max = end ? parseSingle(end) : undefined;
+    if (!min || (end && !max)) return undefined;
+    return {
+      min_days: round(min.days),
+      max_days: max ? round(max.days) : null,
+      reference: reference ?? min.reference ?? max?.reference ?? "birth",
+    };
+  }
+
+  // Spelled-out range: 8-16 weeks, 8 weeks to 16 weeks
+  const range = TEXT_RANGE.exec(text);
+  if (range) {
+    const [, low, lowUnit, high, highUnit] = range;
+    const highPerUnit = unitDays(highUnit);
+    const lowPerUnit = lowUnit ? unitDays(lowUnit) : highPerUnit;
+    if (lowPerUnit === undefined || highPerUnit === undefined) return undefined;
+    return {
+      min_days: round(toNumber(low) * lowPerUnit),
+      max_days: round(toNumber(high) * highPerUnit),
+      reference: reference ?? "birth",
+    };
+  }
+
+  // ISO-style range with a dash between durations: P8W-P16W
+  const dashed = text.split(/\s*-\s*(?=P)/i);
+  if (dashed.length === 2) {
+    const min = parseSingle(dashed[0]);
+    const max = parseSingle(dashed[1]);
+    if (min && max) {
+      return { min_days: round(min.days), max_days: round(max.days), reference: reference ?? min.reference ?? "birth" };
+    }
+  }
+
+  const single = parseSingle(text);
+  if (!single) return undefined;
+  const days = round(single.days);
+  return { min_days: days, max_days: days, reference: reference ?? single.reference ?? "birth" };
+}
+
+/**
+ * Days for a min_age/max_age argument: a number of days, an ISO duration or
+ * text such as "8 weeks"
+ */
+export function parseAgeBound(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0) throw new Error(`${name} must be a non-negative number of days`);
+    return value;
+  }
+  const parsed = parseAge(value);
+  if (!parsed || parsed.max_days !== parsed.min_days) {
+    throw new Error(`${name} must be a single age such as 56, "P8W" or "8 weeks" (got '${value}')`);
+  }
+  return parsed.min_days;
+}
+
+/**
+ * Build an age filter from tool arguments, or undefined when no bound is set
+ */
+export function buildAgeFilter(minAge: unknown, maxAge: unknown, reference: unknown): AgeFilter | undefined {
+  const min = parseAgeBound("min_age", minAge);
+  const max = parseAgeBound("max_age", maxAge);
+  if (min === undefined && max === undefined) return undefined;
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error("min_age must not exceed max_age");
+  }
+  if (reference !== undefined && !AGE_REFERENCES.includes(reference as AgeReference)) {
+    throw new Error(`age_reference must be one of: ${AGE_REFERENCES.join(", ")}`);
+  }
+  return { min_days: min, max_days: max, reference: (reference as AgeReference | undefined) ?? "birth" };
+}
+
+/**
+ * Whether an age lies entirely within the filter bounds. A range age matches
+ * only when both of its ends do.
+ */
+export function ageMatches(age: ParsedAge, filter: AgeFilter): boolean {
+  if (age.reference !== filter.reference) return false;
+  if (filter.min_days !== undefined && age.min_days < filter.min_days) return false;
+  if (filter.max_days !== undefined && (age.max_days === null || age.max_days > filter.max_days)) return false;
+  return true;
+}
+
+/**
+ * Human-readable summary of a filter, e.g. "56–112 days from birth"
+ */
+export function describeAgeFilter(filter: AgeFilter): string {
+  const min = filter.min_days ?? 0;
+  const bounds = filter.max_days === undefined ? `≥ ${min} days` : `${min}–${filter.max_days} days`;
+  return `${bounds} from ${filter.reference}`;
+}
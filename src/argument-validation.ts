@@ -0,0 +1,133 @@
+/**
+ * Runtime checking of tool arguments against their declared inputSchema
+ *
+ * Supports the JSON Schema subset the tool definitions use: `type` (a name
+ * or a list of names), `enum`, `minimum`, `maximum`, `items`, `properties`
+ * and `required`. Objects that declare `properties` reject keys they do not
+ * list unless `additionalProperties` is true. A schema without `type`
+ * accepts any value.
+ *
+ * One coercion is applied: a single value where an array is expected is
+ * wrapped in an array when it is valid as an item (`"species": "mouse"`
+ * becomes `["mouse"]`). Nothing else is converted; a string `limit` is an
+ * error, not a number.
+ */
+
+export interface JsonSchema {
+  type?: string | readonly string[];
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  description?: string;
+}
+
+export interface ArgumentIssue {
+  /** Location of the offending value, e.g. `filters[0].op`; empty for the arguments object */
+  path: string;
+  message: string;
+}
+
+export class ArgumentValidationError extends Error {
+  constructor(readonly issues: ArgumentIssue[]) {
+    super(issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join("; "));
+    this.name = "ArgumentValidationError";
+  }
+}
+
+const TYPE_NAMES: Record<string, string> = { integer: "an integer", array: "an array", object: "an object" };
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  if (typeof value === "number") return Number.isInteger(value) ? `integer ${value}` : `number ${value}`;
+  return typeof value;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return typeof value === "number" && Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "array": return Array.isArray(value);
+    case "object": return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "null": return value === null;
+    default: return true;
+  }
+}
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Check `value` against `schema`, appending problems to `issues`. Returns
+ * the value with coercions applied.
+ */
+function check(schema: JsonSchema, value: unknown, path: string, issues: ArgumentIssue[]): unknown {
+  const types = schema.type === undefined ? [] : typeof schema.type === "string" ? [schema.type] : [...schema.type];
+
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    // A lone item where a list is expected
+    if (types.includes("array") && schema.items && value !== undefined && value !== null) {
+      const itemIssues: ArgumentIssue[] = [];
+      const item = check(schema.items, value, joinPath(path, 0), itemIssues);
+      if (itemIssues.length === 0) return [item];
+    }
+    issues.push({ path, message: `must be ${types.map(type => TYPE_NAMES[type] ?? `a ${type}`).join(" or ")} (got ${describeValue(value)})` });
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")} (got ${describeValue(value)})` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, message: `must be at least ${schema.minimum} (got ${value})` });
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, message: `must be at most ${schema.maximum} (got ${value})` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, index) => check(schema.items!, item, joinPath(path, index), issues));
+  }
+
+  if (hasType(value, "object") && schema.properties) {
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) issues.push({ path: joinPath(path, key), message: "is required" });
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties[key];
+      if (!propertySchema) {
+        if (schema.additionalProperties) {
+          result[key] = propertyValue;
+        } else {
+          issues.push({ path: joinPath(path, key), message: `is not allowed (expected one of: ${Object.keys(schema.properties).join(", ") || "none"})` });
+        }
+        continue;
+      }
+      if (propertyValue === undefined) continue;
+      result[key] = check(propertySchema, propertyValue, joinPath(path, key), issues);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Validate tool arguments, returning them with coercions applied
+ *
+ * @throws ArgumentValidationError listing every problem found
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): Record<string, unknown> {
+  const issues: ArgumentIssue[] = [];
+  const result = check(schema, args ?? {}, "", issues);
+  if (issues.length > 0) throw new ArgumentValidationError(issues);
+  return result as Record<string, unknown>;
+}
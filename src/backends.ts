@@ -0,0 +1,232 @@
+/**
+ * Named dandi-sql backends
+ *
+ * Tools can target any backend listed in the JSON file named by
+ * `DANDI_BACKENDS_FILE` (production, staging, a self-hosted instance, ...).
+ * Each backend gets its own HTTP client, retry/circuit-breaker state and
+ * caches so results from one never leak into another. Without a config file
+ * there is a single `default` backend at `DANDI_API_BASE`.
+ *
+ * File format:
+ *
+ *     {
+ *       "default": "production",
+ *       "backends": {
+ *         "production": { "base_url": "https://dandi-sql-production.up.railway.app/" },
+ *         "staging": {
+ *           "base_url": "https://staging.example.org/",
+ *           "description": "Nightly staging deploy",
+ *           "token_env": "DANDI_STAGING_TOKEN",
+ *           "headers": { "X-Client": "dandi-query-server" },
+ *           "timeout_ms": 60000
+ *         },
+ *         "offline": { "snapshot": "/data/dandi-snapshot.ndjson.gz" }
+ *       }
+ *     }
+ *
+ * A backend with a `snapshot` file (see snapshot.ts) is served from that file
+ * without network access; it needs no base_url.
+ */
+
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import axios, { AxiosInstance } from "axios";
+import { Cassette } from "./cassette.js";
+import { applyResilience, CircuitBreaker, CircuitState, ResiliencePolicy } from "./http-resilience.js";
+import { SchemaCache, TtlCache } from "./schema-cache.js";
+import { SnapshotEngine } from "./snapshot.js";
+
+export const DEFAULT_BACKEND_NAME = "default";
+const BACKEND_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+export interface BackendConfig {
+  name: string;
+  base_url: string;
+  description?: string;
+  headers?: Record<string, string>;
+  /** Sent as `Authorization: Bearer <token>` */
+  token?: string;
+  /** Environment variable holding the token, so secrets stay out of the file */
+  token_env?: string;
+  timeout_ms?: number;
+  /** Snapshot file to serve offline instead of calling base_url */
+  snapshot?: string;
+}
+
+export interface BackendsFile {
+  default?: string;
+  backends: Record<string, Omit<BackendConfig, "name">>;
+}
+
+export interface BackendSettings {
+  policy: ResiliencePolicy;
+  defaultTimeoutMs: number;
+  schemaCacheTtlMs: number;
+  schemaFetchConcurrency: number;
+  /** Records or replays the traffic of every backend */
+  cassette?: Cassette;
+}
+
+export interface BackendHealth {
+  name: string;
+  base_url: string;
+  description?: string;
+  default: boolean;
+  authenticated: boolean;
+  status: "ok" | "error";
+  circuit: CircuitState;
+  latency_ms?: number;
+  table_count?: number;
+  snapshot?: { file: string; created_at: string };
+  error?: string;
+}
+
+/**
+ * One backend: its HTTP client plus the state derived from its responses
+ */
+export class Backend {
+  readonly client: AxiosInstance;
+  readonly schemaCache: SchemaCache;
+  /** Filter options, sample rows and other cached backend responses */
+  readonly cache: TtlCache;
+  /** Set for backends served from a snapshot file */
+  readonly snapshot?: SnapshotEngine;
+  private breaker: CircuitBreaker;
+
+  constructor(readonly config: BackendConfig, settings: BackendSettings) {
+    const token = config.token ?? (config.token_env ? process.env[config.token_env] : undefined);
+    if (config.snapshot) this.snapshot = new SnapshotEngine(config.snapshot);
+    const adapter = settings.cassette
+      ? settings.cassette.adapter(config.name, this.snapshot?.adapter)
+      : this.snapshot?.adapter;
+    this.client = axios.create({
+      baseURL: config.base_url,
+      timeout: config.timeout_ms ?? settings.defaultTimeoutMs,
+      headers: {
+        'Content-Type': 'application/json',
+        ...config.headers,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      ...(adapter && { adapter }),
+    });
+    // Retries, rate limiting and circuit breaking only make sense over the network
+    this.breaker = this.snapshot
+      ? new CircuitBreaker(0, 0)
+      : applyResilience(this.client, settings.policy).breaker;
+
+    this.schemaCache = new SchemaCache(
+      async (table) => (await this.client.get('/api/sql/schema/', { params: table ? { table } : undefined })).data,
+      { ttlMs: settings.schemaCacheTtlMs, concurrency: settings.schemaFetchConcurrency }
+    );
+    this.cache = new TtlCache(settings.schemaCacheTtlMs);
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Probe the schema endpoint once (no retries, short timeout)
+   */
+  async checkHealth(isDefault: boolean): Promise<BackendHealth> {
+    const health: BackendHealth = {
+      name: this.name,
+      base_url: this.config.base_url,
+      description: this.config.description,
+      default: isDefault,
+      authenticated: this.client.defaults.headers.Authorization !== undefined,
+      status: "ok",
+      circuit: this.breaker.state,
+    };
+
+    const started = Date.now();
+    try {
+      const response = await this.client.get('/api/sql/schema/', { timeout: HEALTH_CHECK_TIMEOUT, maxRetries: 0 });
+      health.latency_ms = Date.now() - started;
+      if (Array.isArray(response.data?.allowed_tables)) health.table_count = response.data.allowed_tables.length;
+      if (this.snapshot) health.snapshot = { file: this.snapshot.path, created_at: (await this.snapshot.info()).created_at };
+    } catch (error: any) {
+      health.status = "error";
+      health.latency_ms = Date.now() - started;
+      health.error = axios.isAxiosError(error) && error.response
+        ? `HTTP ${error.response.status}`
+        : error.message ?? String(error);
+    }
+    health.circuit = this.breaker.state;
+    return health;
+  }
+}
+
+/**
+ * Read and validate the backends file
+ */
+export function loadBackendsFile(path: string): { backends: BackendConfig[]; defaultName: string } {
+  let parsed: BackendsFile;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read backends file ${path}: ${error.message}`);
+  }
+
+  if (!parsed || typeof parsed.backends !== "object" || Array.isArray(parsed.backends)) {
+    throw new Error(`Backends file ${path} must contain a "backends" object`);
+  }
+
+  const backends = Object.entries(parsed.backends).map(([name, config]): BackendConfig => {
+    if (!BACKEND_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid backend name '${name}' (use letters, digits, '-' and '_')`);
+    }
+    if (config?.snapshot !== undefined) {
+      if (typeof config.snapshot !== "string" || !config.snapshot) {
+        throw new Error(`Backend '${name}' has an invalid snapshot path`);
+      }
+      // Relative paths are taken from the backends file's directory
+      const snapshot = resolve(dirname(path), config.snapshot);
+      return { ...config, name, snapshot, base_url: config.base_url ?? pathToFileURL(snapshot).href };
+    }
+    if (typeof config?.base_url !== "string" || !/^https?:\/\//.test(config.base_url)) {
+      throw new Error(`Backend '${name}' needs an http(s) base_url or a snapshot`);
+    }
+    if (config.timeout_ms !== undefined && !(Number(config.timeout_ms) > 0)) {
+      throw new Error(`Backend '${name}' has an invalid timeout_ms`);
+    }
+    return { ...config, name };
+  });
+
+  if (backends.length === 0) throw new Error(`Backends file ${path} lists no backends`);
+
+  const defaultName = parsed.default ?? backends[0].name;
+  if (!backends.some(b => b.name === defaultName)) {
+    throw new Error(`Default backend '${defaultName}' is not defined in ${path}`);
+  }
+  return { backends, defaultName };
+}
+
+export class BackendRegistry {
+  private backends = new Map<string, Backend>();
+
+  constructor(configs: BackendConfig[], readonly defaultName: string, settings: BackendSettings) {
+    for (const config of configs) this.backends.set(config.name, new Backend(config, settings));
+  }
+
+  get names(): string[] {
+    return [...this.backends.keys()];
+  }
+
+  /**
+   * Backend by name, or the default backend when no name is given
+   */
+  get(name?: string): Backend {
+    const backend = this.backends.get(name || this.defaultName);
+    if (!backend) {
+      throw new Error(`Unknown backend '${name}'. Configured backends: ${this.names.join(", ")}`);
+    }
+    return backend;
+  }
+
+  async checkHealth(): Promise<BackendHealth[]> {
+    return Promise.all([...this.backends.values()].map(b => b.checkHealth(b.name === this.defaultName)));
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Record and replay of backend traffic
+ *
+ * With `DANDI_CASSETTE_MODE=record`, every request a backend client sends
+ * and the response it gets (error statuses and network failures included)
+ * is appended to the cassette file named by `DANDI_CASSETTE_FILE`. With
+ * `replay`, the same requests are answered from the cassette without network
+ * access, so a session sees exactly what the recorded one saw. A request
+ * with no recording fails with a CassetteMismatchError instead of reaching
+ * the network.
+ *
+ * Requests are matched on backend name, method, path, query parameters (in
+ * any order) and body; headers are neither matched nor recorded, so tokens
+ * stay out of the file. A request recorded several times (a watch checked
+ * twice, a retried failure) is answered with its recordings in order, and
+ * with the last one once they run out.
+ *
+ * File format (NDJSON, one interaction per line):
+ *
+ *     {"backend":"default","request":{"method":"GET","url":"/api/filter-options/"},"response":{"status":200,"data":{...}},"recorded_at":"..."}
+ *     {"backend":"default","request":{"method":"POST","url":"/api/sql/execute/","body":{"sql":"..."}},"error":{"code":"ECONNRESET","message":"..."},"recorded_at":"..."}
+ */
+
+import { appendFile, readFile, writeFile } from "node:fs/promises";
+import axios, { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from "axios";
+import { adapterResponse } from "./snapshot.js";
+
+export const CASSETTE_MODES = ["record", "replay"] as const;
+
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+// Response headers worth keeping: the resilience layer reads Retry-After
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query string, with the query parameters sorted */
+  url: string;
+  body?: unknown;
+}
+
+export interface Interaction {
+  backend: string;
+  request: RecordedRequest;
+  response?: { status: number; headers?: Record<string, string>; data: unknown };
+  /** Failures without a response (timeouts, connection errors) */
+  error?: { code?: string; message: string };
+  recorded_at: string;
+}
+
+/**
+ * Thrown in replay mode for a request the cassette has no recording of
+ */
+export class CassetteMismatchError extends Error {
+  constructor(path: string, request: RecordedRequest, backend: string) {
+    const body = request.body === undefined ? "" : ` with body ${JSON.stringify(request.body).slice(0, 200)}`;
+    super(`Cassette ${path} has no recorded response for ${request.method} ${request.url}${body} on backend '${backend}'`);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/**
+ * The parts of a request that identify it in a cassette
+ */
+function describeRequest(config: InternalAxiosRequestConfig): RecordedRequest {
+  const url = new URL(config.url ?? "", "http://cassette");
+  for (const [name, value] of Object.entries(config.params ?? {})) {
+    if (value !== undefined && value !== null) url.searchParams.append(name, String(value));
+  }
+  url.searchParams.sort();
+
+  let body: unknown = config.data;
+  if (typeof body === "string") {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Not JSON; keep the raw text
+    }
+  }
+  return {
+    method: (config.method ?? "get").toUpperCase(),
+    url: `${url.pathname}${url.search}`,
+    ...(body !== undefined && body !== "" && { body }),
+  };
+}
+
+const interactionKey = (backend: string, request: RecordedRequest) =>
+  JSON.stringify([backend, request.method, request.url, request.body ?? null]);
+
+/**
+ * Response bodies reach the adapter as raw text; JSON is stored parsed so
+ * cassettes stay readable (replayed objects pass through axios unchanged)
+ */
+function recordedData(data: unknown): unknown {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function recordedHeaders(headers: unknown): Record<string, string> | undefined {
+  const source = (headers ?? {}) as Record<string, unknown>;
+  const kept = RECORDED_HEADERS
+    .filter(name => typeof source[name] === "string")
+    .map(name => [name, source[name] as string]);
+  return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+}
+
+export class Cassette {
+  private writes: Promise<void> = Promise.resolve();
+  private started = false;
+  private recordings?: Promise<Map<string, { interactions: Interaction[]; next: number }>>;
+
+  constructor(readonly path: string, readonly mode: CassetteMode) {}
+
+  /**
+   * Adapter for one backend's client. Recording wraps `inner` (the HTTP
+   * adapter by default); replay never calls it.
+   */
+  adapter(backend: string, inner?: AxiosAdapter): AxiosAdapter {
+    if (this.mode === "replay") return config => this.replay(backend, config);
+
+    const send = inner ?? axios.getAdapter(axios.defaults.adapter);
+    return async config => {
+      const request = describeRequest(config);
+      try {
+        const response = await send(config);
+        await this.record({
+          backend,
+          request,
+          response: { status: response.status, headers: recordedHeaders(response.headers), data: recordedData(response.data) },
+          recorded_at: new Date().toISOString(),
+        });
+        return response;
+      } catch (error) {
+        if (error instanceof AxiosError && error.code !== AxiosError.ERR_CANCELED) {
+          await this.record({
+            backend,
+            request,
+            ...(error.response
+              ? { response: { status: error.response.status, headers: recordedHeaders(error.response.headers), data: recordedData(error.response.data) } }
+              : { error: { code: error.code, message: error.message } }),
+            recorded_at: new Date().toISOString(),
+          });
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Append one interaction. The first recording of a session starts the file
+   * afresh; writes keep their order.
+   */
+  private record(interaction: Interaction): Promise<void> {
+    const line = `${JSON.stringify(interaction)}\n`;
+    const first = !this.started;
+    this.started = true;
+    const write = this.writes.then(() => first ? writeFile(this.path, line) : appendFile(this.path, line));
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private loadRecordings() {
+    this.recordings ??= (async () => {
+      let text: string;
+      try {
+        text = await readFile(this.path, "utf8");
+      } catch (error: any) {
+        throw new Error(`Failed to read cassette ${this.path}: ${error.message}`);
+      }
+      const recordings = new Map<string, { interactions: Interaction[]; next: number }>();
+      text.split("\n").forEach((line, index) => {
+        if (!line.trim()) return;
+        let interaction: Interaction;
+        try {
+          interaction = JSON.parse(line);
+        } catch {
+          throw new Error(`Cassette ${this.path} line ${index + 1} is not valid JSON`);
+        }
+        const key = interactionKey(interaction.backend, interaction.request);
+        const entry = recordings.get(key) ?? { interactions: [], next: 0 };
+        entry.interactions.push(interaction);
+        recordings.set(key, entry);
+      });
+      return recordings;
+    })();
+    return this.recordings;
+  }
+
+  private async replay(backend: string, config: InternalAxiosRequestConfig) {
+    const request = describeRequest(config);
+    const entry = (await this.loadRecordings()).get(interactionKey(backend, request));
+    if (!entry) {
+      const error = new CassetteMismatchError(this.path, request, backend);
+      console.error(`[DANDI cassette] ${error.message}`);
+      throw error;
+    }
+
+    const interaction = entry.interactions[Math.min(entry.next, entry.interactions.length - 1)];
+    entry.next += 1;
+    if (interaction.error) {
+      throw new AxiosError(interaction.error.message, interaction.error.code, config, {});
+    }
+    const { status, headers, data } = interaction.response!;
+    return adapterResponse(config, status, data, headers);
+  }
+}
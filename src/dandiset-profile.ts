@@ -0,0 +1,322 @@
+/**
+ * Consolidated dandiset profile
+ *
+ * Answers "tell me everything about dandiset N" with a fixed set of read-only
+ * queries over dandisets_dandiset, dandisets_assetdandiset, dandisets_asset,
+ * dandisets_assetwasattributedto and dandisets_participant, then folds the
+ * rows into one structured profile.
+ *
+ * A dandiset is named by its archive identifier ("000124"); each of its
+ * versions (the draft and every published one) is its own dandisets_dandiset
+ * row. The version row is looked up first, and its internal `id` is what the
+ * asset and participant joins use. After the lookup, sections are
+ * independent: one failing query is reported in `errors` without losing the
+ * rest.
+ */
+
+import { Tabular } from "./formatters.js";
+import { sqlString } from "./query-builder.js";
+
+export const PROFILE_SECTIONS = ["metadata", "assets", "sessions", "demographics", "variables", "largest_files"] as const;
+
+export type ProfileSection = typeof PROFILE_SECTIONS[number];
+
+/** Sections queried once the version row is known (its row is the metadata) */
+export type AssetSection = Exclude<ProfileSection, "metadata">;
+
+export const ASSET_SECTIONS = PROFILE_SECTIONS.filter((section): section is AssetSection => section !== "metadata");
+
+/** Which version row to profile: "latest" (default), "draft" or a version string */
+export const DEFAULT_VERSION = "latest";
+const VERSION_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+export const DEFAULT_LARGEST_FILES = 10;
+export const MAX_LARGEST_FILES = 100;
+const MAX_DEMOGRAPHIC_ROWS = 1000;
+
+export interface Breakdown {
+  value: string | null;
+  subjects: number;
+}
+
+/**
+ * A dandiset as named by the caller: its archive identifier, or (only when
+ * asked for explicitly) the internal id of one version row
+ */
+export type DandisetRef =
+  | { kind: "archive"; identifier: string }
+  | { kind: "internal"; id: number };
+
+export interface DandisetProfile {
+  /** Archive identifier, e.g. "000124" */
+  dandiset_id: string;
+  version: string | null;
+  /** Internal dandisets_dandiset.id of the profiled version row */
+  row_id: number;
+  metadata: Record<string, unknown>;
+  assets?: {
+    asset_count: number;
+    total_bytes: number;
+    total_size: string;
+    unattributed_assets: number;
+  };
+  subjects?: {
+    subject_count: number;
+    single_session_subjects: number;
+    sessions_per_subject: {
+      min: number;
+      median: number;
+      max: number;
+      mean: number;
+      histogram: { sessions: number; subjects: number }[];
+    } | null;
+  };
+  demographics?: {
+    species: Breakdown[];
+    sex: Breakdown[];
+    age: Breakdown[];
+  };
+  variable_measured?: { variable: string; assets: number }[];
+  largest_files?: { id: unknown; path: unknown; content_size: number; size: string }[];
+  errors?: Partial<Record<AssetSection, string>>;
+}
+
+/**
+ * Accept 124, "124", "000124" or "DANDI:000124" as the archive identifier
+ * (normalized to six digits), or a positive integer as the internal row id
+ * when `internal` is set
+ */
+export function parseDandisetRef(input: unknown, internal = false): DandisetRef {
+  const text = String(input ?? "").trim().replace(/^DANDI:/i, "");
+  if (!/^\d+$/.test(text) || Number(text) < 1) {
+    throw new Error(`Invalid dandiset id '${input}' (expected e.g. 124, "000124" or "DANDI:000124")`);
+  }
+  return internal
+    ? { kind: "internal", id: Number(text) }
+    : { kind: "archive", identifier: text.padStart(6, "0") };
+}
+
+export function describeDandisetRef(ref: DandisetRef, version = DEFAULT_VERSION): string {
+  return ref.kind === "internal"
+    ? `dandiset row ${ref.id}`
+    : `dandiset ${ref.identifier} (version ${version})`;
+}
+
+/**
+ * Query for the version row to profile. Archive identifiers are matched on
+ * base_id and identifier with and without the "DANDI:" prefix; "latest"
+ * prefers the row flagged is_latest, then the highest version_order.
+ */
+export function buildDandisetLookup(ref: DandisetRef, version = DEFAULT_VERSION): string {
+  if (ref.kind === "internal") return `SELECT * FROM dandisets_dandiset WHERE id = ${Math.floor(ref.id)} LIMIT 1`;
+  if (!VERSION_PATTERN.test(version)) {
+    throw new Error(`Invalid version '${version}' (expected "latest", "draft" or a version such as "0.230101.1234")`);
+  }
+
+  const names = [ref.identifier, `DANDI:${ref.identifier}`].map(sqlString).join(", ");
+  const conditions = [`(base_id::text IN (${names}) OR identifier::text IN (${names}))`];
+  if (version === "draft") conditions.push("is_draft");
+  else if (version !== "latest") conditions.push(`version = ${sqlString(version)}`);
+  return `SELECT * FROM dandisets_dandiset
+WHERE ${conditions.join("\n  AND ")}
+ORDER BY is_latest DESC NULLS LAST, version_order DESC NULLS LAST, id DESC
+LIMIT 1`;
+}
+
+/**
+ * One query per asset section of the version row `id` (from the lookup)
+ */
+export function buildProfileQueries(id: number, largestFiles = DEFAULT_LARGEST_FILES): Record<AssetSection, string> {
+  const limit = Math.min(Math.max(1, Math.floor(largestFiles)), MAX_LARGEST_FILES);
+  const dandisetAssets = `FROM dandisets_assetdandiset ad
+JOIN dandisets_asset a ON a.id = ad.asset_id
+WHERE ad.dandiset_id = ${id}`;
+
+  return {
+    assets: `SELECT COUNT(DISTINCT a.id) AS asset_count,
+  COALESCE(SUM(a.content_size), 0) AS total_bytes,
+  SUM(CASE WHEN NOT EXISTS (
+    SELECT 1 FROM dandisets_assetwasattributedto awo WHERE awo.asset_id = a.id
+  ) THEN 1 ELSE 0 END) AS unattributed_assets
+${dandisetAssets}`,
+
+    sessions: `WITH subject_sessions AS (
+  SELECT awo.participant_id, COUNT(DISTINCT ad.asset_id) AS sessions
+  FROM dandisets_assetdandiset ad
+  JOIN dandisets_assetwasattributedto awo ON awo.asset_id = ad.asset_id
+  WHERE ad.dandiset_id = ${id}
+  GROUP BY awo.participant_id
+)
+SELECT sessions, COUNT(*) AS subjects
+FROM subject_sessions
+GROUP BY sessions
+ORDER BY sessions
+LIMIT ${MAX_DEMOGRAPHIC_ROWS}`,
+
+    demographics: `WITH subjects AS (
+  SELECT DISTINCT awo.participant_id
+  FROM dandisets_assetdandiset ad
+  JOIN dandisets_assetwasattributedto awo ON awo.asset_id = ad.asset_id
+  WHERE ad.dandiset_id = ${id}
+)
+SELECT st.name AS species, sx.name AS sex, p.age::text AS age, COUNT(*) AS subjects
+FROM subjects s
+JOIN dandisets_participant p ON p.id = s.participant_id
+LEFT JOIN dandisets_speciestype st ON st.id = p.species_id
+LEFT JOIN dandisets_sextype sx ON sx.id = p.sex_id
+GROUP BY st.name, sx.name, p.age::text
+LIMIT ${MAX_DEMOGRAPHIC_ROWS}`,
+
+    variables: `SELECT a.variable_measured::text AS variable_measured, COUNT(*) AS assets
+${dandisetAssets}
+GROUP BY a.variable_measured::text
+LIMIT ${MAX_DEMOGRAPHIC_ROWS}`,
+
+    largest_files: `SELECT a.id, a.path, a.content_size
+${dandisetAssets}
+ORDER BY a.content_size DESC NULLS LAST
+LIMIT ${limit}`,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB", "PB"];
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+const toNumber = (value: unknown): number => Number(value) || 0;
+
+/**
+ * Sum subject counts per value of one demographic column, largest first
+ */
+function breakdown(rows: Record<string, unknown>[], column: string): Breakdown[] {
+  const counts = new Map<string | null, number>();
+  for (const row of rows) {
+    const raw = row[column];
+    const value = raw === null || raw === undefined || raw === "" ? null : String(raw);
+    counts.set(value, (counts.get(value) ?? 0) + toNumber(row.subjects));
+  }
+  return [...counts.entries()]
+    .map(([value, subjects]) => ({ value, subjects }))
+    .sort((a, b) => b.subjects - a.subjects || String(a.value).localeCompare(String(b.value)));
+}
+
+/**
+ * Per-variable asset counts from rows grouped by the whole variable_measured
+ * array (each asset counts once for every variable it lists)
+ */
+function variableHistogram(rows: Record<string, unknown>[]): { variable: string; assets: number }[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    let variables: unknown = row.variable_measured;
+    if (typeof variables === "string") {
+      try {
+        variables = JSON.parse(variables);
+      } catch {
+        // Plain text value
+      }
+    }
+    const list = Array.isArray(variables) ? variables : variables === null || variables === undefined ? [] : [variables];
+    for (const variable of list.length ? list : ["(none)"]) {
+      const name = typeof variable === "object" && variable !== null
+        ? String((variable as Record<string, unknown>).name ?? (variable as Record<string, unknown>).value ?? JSON.stringify(variable))
+        : String(variable);
+      counts.set(name, (counts.get(name) ?? 0) + toNumber(row.assets));
+    }
+  }
+  return [...counts.entries()]
+    .map(([variable, assets]) => ({ variable, assets }))
+    .sort((a, b) => b.assets - a.assets || a.variable.localeCompare(b.variable));
+}
+
+/**
+ * Fold the version row and the per-section query results into the profile.
+ * `results` holds the rows of every section that succeeded, `errors` the
+ * message of every one that failed.
+ */
+export function assembleProfile(
+  metadata: Record<string, unknown>,
+  results: Partial<Record<AssetSection, Tabular>>,
+  errors: Partial<Record<AssetSection, string>>
+): DandisetProfile {
+  const identifier = String(metadata.base_id ?? metadata.identifier ?? "").replace(/^DANDI:/i, "");
+  const profile: DandisetProfile = {
+    dandiset_id: identifier,
+    version: metadata.version === undefined || metadata.version === null ? null : String(metadata.version),
+    row_id: toNumber(metadata.id),
+    metadata,
+  };
+
+  const totals = results.assets?.rows[0];
+  if (totals) {
+    const totalBytes = toNumber(totals.total_bytes);
+    profile.assets = {
+      asset_count: toNumber(totals.asset_count),
+      total_bytes: totalBytes,
+      total_size: formatBytes(totalBytes),
+      unattributed_assets: toNumber(totals.unattributed_assets),
+    };
+  }
+
+  if (results.sessions) {
+    const histogram = results.sessions.rows
+      .map(row => ({ sessions: toNumber(row.sessions), subjects: toNumber(row.subjects) }))
+      .sort((a, b) => a.sessions - b.sessions);
+    const subjectCount = histogram.reduce((sum, bin) => sum + bin.subjects, 0);
+
+    // Walk the histogram to find the value at a given rank
+    const atRank = (rank: number) => {
+      let seen = 0;
+      for (const bin of histogram) {
+        seen += bin.subjects;
+        if (seen > rank) return bin.sessions;
+      }
+      return histogram[histogram.length - 1].sessions;
+    };
+
+    profile.subjects = {
+      subject_count: subjectCount,
+      single_session_subjects: histogram.find(bin => bin.sessions === 1)?.subjects ?? 0,
+      sessions_per_subject: subjectCount === 0 ? null : {
+        min: histogram[0].sessions,
+        median: subjectCount % 2
+          ? atRank((subjectCount - 1) / 2)
+          : (atRank(subjectCount / 2 - 1) + atRank(subjectCount / 2)) / 2,
+        max: histogram[histogram.length - 1].sessions,
+        mean: Math.round((histogram.reduce((sum, bin) => sum + bin.sessions * bin.subjects, 0) / subjectCount) * 100) / 100,
+        histogram,
+      },
+    };
+  }
+
+  if (results.demographics) {
+    const rows = results.demographics.rows;
+    profile.demographics = {
+      species: breakdown(rows, "species"),
+      sex: breakdown(rows, "sex"),
+      age: breakdown(rows, "age"),
+    };
+  }
+
+  if (results.variables) {
+    profile.variable_measured = variableHistogram(results.variables.rows);
+  }
+
+  if (results.largest_files) {
+    profile.largest_files = results.largest_files.rows.map(row => ({
+      id: row.id,
+      path: row.path,
+      content_size: toNumber(row.content_size),
+      size: formatBytes(toNumber(row.content_size)),
+    }));
+  }
+
+  if (Object.keys(errors).length > 0) profile.errors = errors;
+  return profile;
+}
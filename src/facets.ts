@@ -0,0 +1,141 @@
+/**
+ * Facet counts for basic searches
+ *
+ * Shows how the whole match set of a search spreads over species, approach,
+ * anatomy and the other filter dimensions, so a search can be narrowed
+ * sensibly. Each facet is one aggregate query over the same match set the
+ * SQL search fallback uses (see search-filters.ts), counting distinct
+ * datasets for search_datasets and distinct assets for search_assets.
+ * Facets are independent: one failing query is reported without losing the
+ * rest.
+ */
+
+import { Tabular } from "./formatters.js";
+import { buildMatchSql, FilterCriterion, SearchScope, SearchTool } from "./search-filters.js";
+
+export const FACETS = ["species", "approach", "anatomy", "measurement_technique", "variable_measured", "session_type"] as const;
+
+export type Facet = typeof FACETS[number];
+
+export const DEFAULT_FACET_LIMIT = 10;
+export const MAX_FACET_LIMIT = 50;
+
+export interface FacetCounts {
+  /** Most common values first */
+  values: { value: string; count: number }[];
+  /** Number of distinct values, including those past the limit */
+  distinct_values: number;
+}
+
+/**
+ * Joins from the matched rows `m` to the rows holding the facet value, and
+ * the value expression
+ */
+function facetSource(facet: Facet, tool: SearchTool): { joins: string[]; value: string } {
+  // Dataset searches reach asset-level values through every asset of the dataset
+  const assetLink = tool === "search_datasets"
+    ? ["JOIN dandisets_assetdandiset fad ON fad.dandiset_id = m.dandiset_id"]
+    : [];
+  const assetId = tool === "search_datasets" ? "fad.asset_id" : "m.asset_id";
+  const assetRow = [...assetLink, `JOIN dandisets_asset fa ON fa.id = ${assetId}`];
+
+  switch (facet) {
+    case "species":
+      return {
+        joins: [
+          ...assetLink,
+          `JOIN dandisets_assetwasattributedto awo ON awo.asset_id = ${assetId}`,
+          "JOIN dandisets_participant p ON p.id = awo.participant_id",
+          "JOIN dandisets_speciestype st ON st.id = p.species_id",
+        ],
+        value: "st.name",
+      };
+    case "approach":
+      return {
+        joins: [
+          ...assetLink,
+          `JOIN dandisets_assetapproach aap ON aap.asset_id = ${assetId}`,
+          "JOIN dandisets_approachtype apt ON apt.id = aap.approach_id",
+        ],
+        value: "apt.name",
+      };
+    case "measurement_technique":
+      return {
+        joins: [
+          ...assetLink,
+          `JOIN dandisets_assetmeasurementtechnique amt ON amt.asset_id = ${assetId}`,
+          "JOIN dandisets_measurementtechniquetype mtt ON mtt.id = amt.measurement_technique_id",
+        ],
+        value: "mtt.name",
+      };
+    case "anatomy":
+      // Recorded per dandiset in dandisets_dandisetabout
+      return {
+        joins: [
+          "JOIN dandisets_dandisetabout dab ON dab.dandiset_id = m.dandiset_id",
+          "JOIN dandisets_anatomy an ON an.id = dab.anatomy_id",
+        ],
+        value: "an.name",
+      };
+    case "variable_measured":
+      // A JSON list of names (or of objects with a name)
+      return {
+        joins: [
+          ...assetRow,
+          "CROSS JOIN LATERAL jsonb_array_elements(CASE WHEN jsonb_typeof(fa.variable_measured) = 'array' THEN fa.variable_measured ELSE '[]'::jsonb END) vm(item)",
+        ],
+        value: "COALESCE(vm.item->>'name', vm.item->>'value', vm.item #>> '{}')",
+      };
+    case "session_type":
+      // The modality suffix of the file name, e.g. sub-1_ses-2_ecephys.nwb
+      return {
+        joins: assetRow,
+        value: "substring(fa.path from '_([A-Za-z0-9]+)\\.nwb$')",
+      };
+  }
+}
+
+/**
+ * One aggregate query per facet over the match set of a search
+ */
+export function buildFacetQueries(
+  tool: SearchTool,
+  criteria: FilterCriterion[],
+  scope: SearchScope,
+  facets: readonly Facet[],
+  limit: number
+): Partial<Record<Facet, string>> {
+  const matched = buildMatchSql(tool, criteria, scope).replace(/\n/g, "\n  ");
+  const unit = tool === "search_datasets" ? "m.dandiset_id" : "m.asset_id";
+  const queries: Partial<Record<Facet, string>> = {};
+
+  for (const facet of facets) {
+    const { joins, value } = facetSource(facet, tool);
+    queries[facet] = `WITH matched AS (
+  ${matched}
+),
+facet AS (
+  SELECT DISTINCT ${unit} AS unit, ${value} AS value
+  FROM matched m
+  ${joins.join("\n  ")}
+)
+SELECT value, COUNT(*) AS count, COUNT(*) OVER () AS distinct_values
+FROM facet
+WHERE value IS NOT NULL AND value <> ''
+GROUP BY value
+ORDER BY count DESC, value
+LIMIT ${Math.floor(limit)}`;
+  }
+
+  return queries;
+}
+
+/**
+ * Counts from the rows of one facet query
+ */
+export function facetCounts(table: Tabular): FacetCounts {
+  return {
+    values: table.rows.map(row => ({ value: String(row.value), count: Number(row.count) || 0 })),
+    distinct_values: Number(table.rows[0]?.distinct_values) || 0,
+  };
+}
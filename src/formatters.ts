@@ -0,0 +1,137 @@
+/**
+ * Output formatters for row-oriented tool results
+ *
+ * Pretty-printed JSON repeats every column name on every row. These
+ * formatters render the same rows as a markdown table, RFC 4180 CSV, NDJSON
+ * or column-oriented compact JSON.
+ */
+
+export const OUTPUT_FORMATS = ["json", "markdown", "csv", "ndjson", "compact_json"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface Tabular {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+// Keys under which the backend returns result rows
+const ROW_KEYS = ["results", "rows", "data"];
+
+/**
+ * Normalize a list of records (objects, or arrays paired with a column list)
+ * into a table with a stable column order
+ */
+export function toTabular(records: unknown[], columns?: string[]): Tabular {
+  const names: string[] = columns ? [...columns] : [];
+  const seen = new Set(names);
+  const rows: Record<string, unknown>[] = [];
+
+  for (const record of records) {
+    if (Array.isArray(record)) {
+      const row: Record<string, unknown> = {};
+      record.forEach((value, index) => {
+        const name = names[index] ?? `column_${index + 1}`;
+        if (!seen.has(name)) {
+          seen.add(name);
+          names.push(name);
+        }
+        row[name] = value;
+      });
+      rows.push(row);
+    } else if (record && typeof record === "object") {
+      for (const key of Object.keys(record)) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          names.push(key);
+        }
+      }
+      rows.push(record as Record<string, unknown>);
+    } else {
+      if (!seen.has("value")) {
+        seen.add("value");
+        names.push("value");
+      }
+      rows.push({ value: record });
+    }
+  }
+
+  return { columns: names, rows };
+}
+
+/**
+ * Locate the row array inside a backend response
+ */
+export function findRowsKey(data: unknown): string | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  return ROW_KEYS.find(key => Array.isArray((data as Record<string, unknown>)[key]));
+}
+
+/**
+ * Render a single cell as text. JSONB values (objects/arrays such as
+ * `variable_measured`) are serialized as JSON; NULL becomes `nullText`.
+ */
+function cellText(value: unknown, nullText: string): string {
+  if (value === null || value === undefined) return nullText;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toMarkdown(table: Tabular): string {
+  if (table.columns.length === 0) return "_No rows_";
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+  const lines = [
+    `| ${table.columns.map(escape).join(" | ")} |`,
+    `| ${table.columns.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of table.rows) {
+    lines.push(`| ${table.columns.map(c => escape(cellText(row[c], "NULL"))).join(" | ")} |`);
+  }
+  return lines.join("\n");
+}
+
+function toCsv(table: Tabular): string {
+  // RFC 4180: quote fields containing separators, quotes or line breaks, double embedded quotes.
+  // Empty strings are quoted too, so they stay distinct from NULL, which is a bare empty field.
+  const field = (text: string) => text === "" || /[",\r\n]/.test(text) || /^\s|\s$/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+  const cell = (value: unknown) => value === null || value === undefined ? "" : field(cellText(value, ""));
+  const lines = [table.columns.map(field).join(",")];
+  for (const row of table.rows) {
+    lines.push(table.columns.map(c => cell(row[c])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function toNdjson(table: Tabular): string {
+  return table.rows
+    .map(row => JSON.stringify(Object.fromEntries(table.columns.map(c => [c, row[c] ?? null]))))
+    .join("\n");
+}
+
+/**
+ * Column-oriented representation: column names once, then row value arrays
+ */
+export function toCompact(table: Tabular) {
+  return {
+    columns: table.columns,
+    rows: table.rows.map(row => table.columns.map(c => row[c] ?? null)),
+  };
+}
+
+/**
+ * Render a table in one of the text formats
+ */
+export function formatTable(table: Tabular, format: Exclude<OutputFormat, "json">): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(table);
+    case "csv":
+      return toCsv(table);
+    case "ndjson":
+      return toNdjson(table);
+    case "compact_json":
+      return JSON.stringify(toCompact(table));
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Retries, rate limiting and circuit breaking for the backend HTTP client
+ *
+ * Installed as axios interceptors so every call site keeps using the plain
+ * axios instance. Idempotent requests (GET, HEAD, OPTIONS) that fail with a
+ * network error or a transient status are retried with jittered exponential
+ * backoff (honoring `Retry-After`). POSTs flagged `idempotent`, such as
+ * read-only SQL, are retried only when the server turned them away; after a
+ * timeout or a lost connection the query may still be running. All requests pass through a token-bucket rate limiter; and
+ * after repeated failures a circuit breaker rejects requests immediately
+ * until a cool-down has passed.
+ */
+
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+export interface ResiliencePolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  /** Sustained requests per second (0 disables rate limiting) */
+  rateLimit: number;
+  /** Consecutive failed requests that open the circuit (0 disables it) */
+  circuitFailureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  circuitResetMs: number;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    /** Per-request override of the policy's retry count */
+    maxRetries?: number;
+    /** Marks a POST as safe to repeat (read-only SQL), making it retryable on 429/502/503/504 */
+    idempotent?: boolean;
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options"]);
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+// Statuses that mean the server did not run an idempotent POST
+const RETRYABLE_POST_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Thrown instead of sending a request while the circuit is open
+ */
+export class BackendUnavailableError extends Error {
+  constructor(public retryInMs: number, failures: number) {
+    super(
+      `Backend unavailable: ${failures} consecutive requests failed; ` +
+      `requests are paused for another ${Math.ceil(retryInMs / 1000)}s`
+    );
+    this.name = "BackendUnavailableError";
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token bucket allowing `rate` requests per second with bursts of up to `rate`
+ */
+export class RateLimiter {
+  private tokens: number;
+  private updated = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private rate: number) {
+    this.tokens = rate;
+  }
+
+  /**
+   * Resolve once a request may be sent; waiters are served in order
+   */
+  acquire(): Promise<void> {
+    if (this.rate <= 0) return Promise.resolve();
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / this.rate) * 1000);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.rate, this.tokens + ((now - this.updated) / 1000) * this.rate);
+    this.updated = now;
+  }
+}
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private threshold: number, private resetMs: number) {}
+
+  get state(): CircuitState {
+    if (this.threshold <= 0 || this.failures < this.threshold) return "closed";
+    return Date.now() - this.openedAt >= this.resetMs ? "half_open" : "open";
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Throw if the request must not be sent. In the half-open state a single
+   * trial request is let through; its outcome closes or re-opens the circuit.
+   */
+  check() {
+    const state = this.state;
+    if (state === "closed") return;
+    if (state === "half_open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    const remaining = Math.max(0, this.resetMs - (Date.now() - this.openedAt));
+    throw new BackendUnavailableError(remaining, this.failures);
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    this.trialInFlight = false;
+    if (this.threshold > 0 && this.failures >= this.threshold) this.openedAt = Date.now();
+  }
+}
+
+/**
+ * Network errors, timeouts and 5xx responses count towards opening the
+ * circuit; 4xx responses (bad queries, throttling) do not
+ */
+function isBackendFailure(error: AxiosError): boolean {
+  return !error.response || error.response.status >= 500;
+}
+
+/**
+ * Whether a failed request may be sent again
+ */
+export function isRetryable(error: AxiosError): boolean {
+  if (error.code === AxiosError.ERR_CANCELED) return false;
+  const method = (error.config?.method ?? "get").toLowerCase();
+  if (IDEMPOTENT_METHODS.has(method)) {
+    return !error.response || RETRYABLE_STATUSES.has(error.response.status);
+  }
+  return error.config?.idempotent === true && error.response !== undefined &&
+    RETRYABLE_POST_STATUSES.has(error.response.status);
+}
+
+/**
+ * `Retry-After` in milliseconds (delta-seconds or HTTP date), if present
+ */
+function parseRetryAfter(error: AxiosError): number | undefined {
+  const header = error.response?.headers?.["retry-after"];
+  if (typeof header !== "string" || !header.trim()) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Full-jitter exponential backoff: uniform in [0, min(max, base * 2^attempt)]
+ */
+export function backoffDelay(attempt: number, policy: ResiliencePolicy): number {
+  const ceiling = Math.min(policy.retryMaxDelayMs, policy.retryBaseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+interface RetryState {
+  retryAttempt?: number;
+}
+
+/**
+ * Install retry, rate-limit and circuit-breaker interceptors on `instance`
+ */
+export function applyResilience(instance: AxiosInstance, policy: ResiliencePolicy) {
+  const limiter = new RateLimiter(policy.rateLimit);
+  const breaker = new CircuitBreaker(policy.circuitFailureThreshold, policy.circuitResetMs);
+
+  instance.interceptors.request.use(async (config: InternalAxiosRequestConfig & RetryState) => {
+    // Retries belong to a request the breaker already admitted
+    if (!config.retryAttempt) breaker.check();
+    await limiter.acquire();
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error) => {
+      if (!(error instanceof AxiosError) || !error.config) throw error;
+
+      const config = error.config as InternalAxiosRequestConfig & RetryState;
+      const attempt = config.retryAttempt ?? 0;
+      const maxRetries = config.maxRetries ?? policy.maxRetries;
+      if (attempt < maxRetries && isRetryable(error)) {
+        const retryAfter = parseRetryAfter(error);
+        // A server asking for a longer pause than we are willing to wait is
+        // reported rather than retried
+        if (retryAfter === undefined || retryAfter <= policy.retryMaxDelayMs) {
+          const delay = retryAfter ?? backoffDelay(attempt, policy);
+          console.warn(
+            `[DANDI HTTP] ${config.method?.toUpperCase()} ${config.url} failed ` +
+            `(${error.response?.status ?? error.code}); retry ${attempt + 1}/${maxRetries} in ${delay}ms`
+          );
+          await sleep(delay);
+          config.retryAttempt = attempt + 1;
+          return instance.request(config);
+        }
+      }
+
+      if (isBackendFailure(error)) breaker.recordFailure();
+      else breaker.recordSuccess();
+      throw error;
+    }
+  );
+
+  return { limiter, breaker };
+}
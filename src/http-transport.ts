@@ -0,0 +1,107 @@
+/**
+ * HTTP + SSE transport
+ *
+ * Serves MCP over Server-Sent Events so a single shared process can handle
+ * several clients. Each `GET /sse` opens a session with its own MCP `Server`
+ * (created by the caller, sharing whatever state the caller shares); the
+ * client then POSTs messages to `/messages?sessionId=...`.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** When set, every request must carry `Authorization: Bearer <token>` */
+  authToken?: string;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  server: Server;
+}
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Start the HTTP server. `createMcpServer` is called once per SSE session.
+ */
+export async function serveHttp(
+  createMcpServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (req.method === "GET" && url.pathname === "/health") {
+        return sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      }
+
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        return sendJson(res, 401, { error: "Unauthorized" });
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createMcpServer();
+        sessions.set(transport.sessionId, { transport, server });
+        // The MCP server claims transport.onclose once connected
+        res.on("close", () => {
+          sessions.delete(transport.sessionId);
+          console.error(`SSE session ${transport.sessionId} closed (${sessions.size} active)`);
+        });
+        await server.connect(transport);
+        console.error(`SSE session ${transport.sessionId} opened (${sessions.size} active)`);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get("sessionId");
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (!session) {
+          return sendJson(res, 404, { error: `Unknown session: ${sessionId}` });
+        }
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (error) {
+      console.error('[HTTP Transport Error]', error);
+      if (!res.headersSent) sendJson(res, 500, { error: "Internal server error" });
+    }
+  });
+
+  httpServer.on("close", () => {
+    for (const { server } of sessions.values()) server.close().catch(() => {});
+    sessions.clear();
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return httpServer;
+}
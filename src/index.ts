@@ -13,21 +13,276 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Server as HttpServer } from "node:http";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import axios from "axios";
+import { analyzeSql, MAX_SQL_LENGTH } from "./sql-analyzer.js";
+import { findRowsKey, formatTable, OUTPUT_FORMATS, OutputFormat, Tabular, toCompact, toTabular } from "./formatters.js";
+import { ResultStore, StoredResult } from "./result-store.js";
+import { mapWithConcurrency } from "./schema-cache.js";
+import { bindPromptArguments, matchFilterOptions, PROMPTS } from "./prompts.js";
+import { renderFilterValues, renderSchemaReference, renderTableSection } from "./live-docs.js";
+import { buildJoinGraph, findJoinPath, resolveTable } from "./join-graph.js";
+import { BUILD_QUERY_MAX_LIMIT, buildQuery, QUERY_AGGREGATIONS, QUERY_TARGETS, QuerySpec } from "./query-builder.js";
+import {
+  AGGREGATE_OPERATORS,
+  Aggregation,
+  FILTER_OPERATORS,
+  FilterPredicate,
+  filterRows,
+  groupRows,
+  joinRows,
+  projectRows,
+  SortKey,
+  sortRows,
+} from "./result-ops.js";
+import { fetchAllPages, FETCH_ALL_MAX_PAGES, FETCH_ALL_MAX_ROWS, SearchPage } from "./pagination.js";
+import { HttpTransportOptions, serveHttp } from "./http-transport.js";
+import {
+  bindArguments,
+  bindSql,
+  PARAMETER_TYPES,
+  resolveParameters,
+  SAVED_QUERY_KINDS,
+  SavedQuery,
+  SavedQueryInput,
+  SavedQueryStore,
+  sqlForAnalysis,
+} from "./saved-queries.js";
+import {
+  diffSnapshots,
+  hasChanges,
+  matchingArguments,
+  summarizeCheck,
+  takeSnapshot,
+  validateWatch,
+  Watch,
+  WATCH_KINDS,
+  WatchInput,
+  WatchStore,
+} from "./watches.js";
+import { ArgumentValidationError, JsonSchema, validateArguments } from "./argument-validation.js";
+import { buildVocabularies, RESOLVABLE_FILTERS, ResolvableFilter, TermResolution } from "./term-resolution.js";
+import {
+  buildSearchSql,
+  describeCriteria,
+  FILTER_MODES,
+  FilterCriterion,
+  FilterMode,
+  SEARCH_FILTERS,
+  SearchFilter,
+  SearchTool,
+  sqlFallbackReasons,
+} from "./search-filters.js";
+import {
+  contentLength,
+  decodeCursor,
+  encodeCursor,
+  fitContent,
+  fitRowCount,
+  MAX_MAX_CHARS,
+  MIN_MAX_CHARS,
+  ResponseShape,
+  summarizeRows,
+} from "./response-budget.js";
+import { ExplainResult, explainStatement, parsePlan, planWarnings } from "./query-plan.js";
+import { buildFacetQueries, DEFAULT_FACET_LIMIT, Facet, FacetCounts, facetCounts, FACETS, MAX_FACET_LIMIT } from "./facets.js";
+import { AGE_REFERENCES, ageMatches, AgeFilter, AgeReference, buildAgeFilter, describeAgeFilter, parseAge } from "./age.js";
+import {
+  ASSET_SECTIONS,
+  AssetSection,
+  assembleProfile,
+  buildDandisetLookup,
+  buildProfileQueries,
+  DEFAULT_LARGEST_FILES,
+  DEFAULT_VERSION,
+  describeDandisetRef,
+  MAX_LARGEST_FILES,
+  parseDandisetRef,
+} from "./dandiset-profile.js";
+import { ResiliencePolicy } from "./http-resilience.js";
+import { Backend, BackendRegistry, DEFAULT_BACKEND_NAME, loadBackendsFile } from "./backends.js";
+import { exportSnapshot, SnapshotEngine } from "./snapshot.js";
+import { Cassette, CASSETTE_MODES, CassetteMode } from "./cassette.js";
+
+/**
+ * Non-negative numeric env var; unlike `Number(x) || default`, an explicit 0 is kept
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name]?.trim() && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
 
 // Configuration
 const DANDI_API_BASE = process.env.DANDI_API_BASE || "https://dandi-sql-production.up.railway.app/";
-const API_TIMEOUT = 30000; // 30 seconds
+const API_TIMEOUT = envNumber("DANDI_API_TIMEOUT", 30000); // 30 seconds
+
+// Per-call timeout bounds for execute_sql and explain_sql
+const MIN_QUERY_TIMEOUT = 1000;
+const MAX_QUERY_TIMEOUT = 10 * 60 * 1000;
+
+// execute_sql refuses queries whose EXPLAIN estimate exceeds this planner cost (0: no check)
+const MAX_QUERY_COST = envNumber("DANDI_MAX_QUERY_COST", 0);
+// explain_sql only runs EXPLAIN ANALYZE (which executes the query) below this estimate
+const EXPLAIN_ANALYZE_MAX_COST = envNumber("DANDI_EXPLAIN_ANALYZE_MAX_COST", 1000000);
+
+// Optional JSON file of named backends; see backends.ts for the format
+const DANDI_BACKENDS_FILE = process.env.DANDI_BACKENDS_FILE;
+// Serve the default backend from this snapshot file instead of DANDI_API_BASE
+const DANDI_SNAPSHOT_FILE = process.env.DANDI_SNAPSHOT_FILE;
+// Record backend traffic to, or replay it from, this cassette file; see cassette.ts
+const DANDI_CASSETTE_FILE = process.env.DANDI_CASSETTE_FILE;
+const DANDI_CASSETTE_MODE = process.env.DANDI_CASSETTE_MODE || "replay";
+
+// Retry, rate-limit and circuit-breaker policy for backend requests
+const RESILIENCE_POLICY: ResiliencePolicy = {
+  maxRetries: envNumber("DANDI_MAX_RETRIES", 3),
+  retryBaseDelayMs: envNumber("DANDI_RETRY_BASE_DELAY", 500),
+  retryMaxDelayMs: envNumber("DANDI_RETRY_MAX_DELAY", 10000),
+  rateLimit: envNumber("DANDI_RATE_LIMIT", 10), // requests per second
+  circuitFailureThreshold: envNumber("DANDI_CIRCUIT_FAILURE_THRESHOLD", 5),
+  circuitResetMs: envNumber("DANDI_CIRCUIT_RESET_MS", 30000),
+};
+
+// Schema cache shared by get_schema, get_full_schema, SQL analysis and join paths
+const SCHEMA_CACHE_TTL = Number(process.env.DANDI_SCHEMA_CACHE_TTL) || 5 * 60 * 1000; // 5 minutes
+const SCHEMA_FETCH_CONCURRENCY = Number(process.env.DANDI_SCHEMA_FETCH_CONCURRENCY) || 4;
+
+// Result set store: rows beyond the preview are read through dandi://results/{id}
+const RESULT_STORE_MAX_ENTRIES = Number(process.env.DANDI_RESULT_STORE_MAX_ENTRIES) || 50;
+const RESULT_STORE_MAX_ROWS = Number(process.env.DANDI_RESULT_STORE_MAX_ROWS) || 50000;
+const RESULT_STORE_DIR = process.env.DANDI_RESULT_STORE_DIR;
+const RESULT_STORE_MAX_FILES = Number(process.env.DANDI_RESULT_STORE_MAX_FILES) || 500;
+const RESULT_STORE_MAX_BYTES = Number(process.env.DANDI_RESULT_STORE_MAX_BYTES) || 500 * 1024 * 1024;
+const RESULT_PREVIEW_ROWS = Number(process.env.DANDI_RESULT_PREVIEW_ROWS) || 20;
+const RESULT_PAGE_SIZE = 100;
+
+// Response budget in characters when a call does not pass max_chars
+const DEFAULT_MAX_RESPONSE_CHARS = envNumber("DANDI_MAX_RESPONSE_CHARS", 60000);
+
+// Named, parameterized queries saved by save_query
+const SAVED_QUERIES_FILE = process.env.DANDI_SAVED_QUERIES_FILE ||
+  join(homedir(), ".dandi-query-server", "saved-queries.json");
+
+// Watched searches checked by check_watches
+const WATCHES_FILE = process.env.DANDI_WATCHES_FILE ||
+  join(homedir(), ".dandi-query-server", "watches.json");
+const WATCH_MAX_CHANGES = 50;
+
+// Fallback table list for the SQL guide when the live schema is unavailable
+const STATIC_TABLES_SECTION = `## Available Tables
+
+### Core Tables:
+- \`dandisets_dandiset\` - Dataset metadata
+- \`dandisets_asset\` - Individual files/sessions
+- \`dandisets_participant\` - Subject information
+- \`dandisets_assetdandiset\` - Asset-dataset relationships
+- \`dandisets_assetwasattributedto\` - Asset-participant relationships
+
+### Reference Tables:
+- \`dandisets_species\` - Species information
+- \`dandisets_anatomy\` - Anatomical regions
+- \`dandisets_approach\` - Experimental approaches
+- \`dandisets_measurementtechnique\` - Measurement methods`;
+
+// Shared inputSchema property for tools that return rows
+const OUTPUT_FORMAT_PROPERTY = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description: "Result format: json (default), markdown (table), csv (RFC 4180), ndjson, or compact_json (column-oriented)"
+};
+
+// Response size controls added to every tool's inputSchema
+const FIELDS_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  description: "Columns to return, in order (e.g. ['id', 'path', 'metadata.contentSize']); dotted names reach into nested objects"
+};
+
+const MAX_CHARS_PROPERTY = {
+  type: "number",
+  description: `Character budget for the response, about 4 characters per token (default: ${DEFAULT_MAX_RESPONSE_CHARS}). Row results over budget keep their first rows, summarize the rest and return a cursor for continue_result`,
+  minimum: MIN_MAX_CHARS,
+  maximum: MAX_MAX_CHARS
+};
+
+// Shared bounds for per-call query timeouts
+const QUERY_TIMEOUT_PROPERTY = {
+  type: "number",
+  minimum: MIN_QUERY_TIMEOUT,
+  maximum: MAX_QUERY_TIMEOUT
+};
+
+// Shared inputSchema property for searches whose filter terms are resolved
+const EXACT_TERMS_PROPERTY = {
+  type: "boolean",
+  description: "Send species/anatomy/approach/measurement_technique/disorder/sex values as given instead of resolving common names, synonyms and misspellings to canonical values (default: false)"
+};
+
+// Shared inputSchema property choosing how each search filter combines its values
+const FILTER_MODES_PROPERTY = {
+  type: "object",
+  properties: Object.fromEntries(SEARCH_FILTERS.map(filter => [filter, { type: "string", enum: FILTER_MODES }])),
+  description: "How each filter combines its values: any (default, match at least one), all (match every value) or none (exclude matches), e.g. {\"anatomy\": \"all\", \"disorder\": \"none\"}. Combinations the search endpoint cannot express run as generated SQL"
+};
+
+// Shared inputSchema properties for facet counts on the search tools
+const FACET_PROPERTIES = {
+  facets: {
+    type: ["boolean", "array"],
+    items: { type: "string", enum: FACETS },
+    description: `Also count how the whole match set spreads over ${FACETS.join(", ")}: true for every facet or a list of facets (computed with aggregate SQL)`
+  },
+  facet_limit: {
+    type: "number",
+    description: `Values listed per facet, most common first (default: ${DEFAULT_FACET_LIMIT}, max: ${MAX_FACET_LIMIT})`,
+    minimum: 1,
+    maximum: MAX_FACET_LIMIT
+  }
+};
+
+// Shared inputSchema properties for participant age filtering
+const AGE_FILTER_PROPERTIES = {
+  min_age: {
+    type: ["number", "string"],
+    description: "Minimum participant age: days as a number, an ISO 8601 duration ('P8W') or text ('8 weeks')"
+  },
+  max_age: {
+    type: ["number", "string"],
+    description: "Maximum participant age (same forms as min_age). Age ranges such as 'P8W/P16W' must lie entirely within the bounds"
+  },
+  age_reference: {
+    type: "string",
+    enum: AGE_REFERENCES,
+    description: "Reference point the age bounds count from (default: birth)"
+  }
+};
 
-interface DandiSearchParams {
+// Unparsed age values listed in responses (the count is always complete)
+const MAX_UNPARSED_AGES_REPORTED = 50;
+
+interface AgeFilterParams {
+  min_age?: number | string;
+  max_age?: number | string;
+  age_reference?: AgeReference;
+}
+
+interface DandiSearchParams extends AgeFilterParams, ResponseShape {
   name?: string;
   description?: string;
   species?: string[];
@@ -35,68 +290,257 @@ interface DandiSearchParams {
   measurement_technique?: string[];
   anatomy?: string[];
   disorder?: string[];
+  sex?: string[];
   session_type?: string[];
   variable_measured?: string[];
+  filter_modes?: Partial<Record<SearchFilter, FilterMode>>;
+  facets?: boolean | Facet[];
+  facet_limit?: number;
   dandiset_id?: number;
   limit?: number;
   offset?: number;
+  fetch_all?: boolean;
+  max_rows?: number;
+  max_pages?: number;
+  output_format?: OutputFormat;
+  exact_terms?: boolean;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+}
+
+interface ResolveTermsParams {
+  terms: string[];
+  filter?: ResolvableFilter;
+  limit?: number;
 }
 
-interface SqlQueryParams {
+interface SqlQueryParams extends ResponseShape {
   sql: string;
+  output_format?: OutputFormat;
+  timeout_ms?: number;
+  max_cost?: number;
+}
+
+interface ExplainSqlParams {
+  sql: string;
+  analyze?: boolean;
+  max_cost?: number;
+  timeout_ms?: number;
 }
 
 interface SchemaQueryParams {
   table?: string;
+  refresh?: boolean;
+}
+
+interface DandisetProfileParams {
+  dandiset_id: number | string;
+  version?: string;
+  internal_id?: boolean;
+  largest_files?: number;
+}
+
+interface SaveQueryParams extends SavedQueryInput {
+  overwrite?: boolean;
+}
+
+interface RunSavedQueryParams extends ResponseShape {
+  name: string;
+  parameters?: Record<string, unknown>;
+  output_format?: OutputFormat;
+}
+
+interface CreateWatchParams extends WatchInput {
+  overwrite?: boolean;
+}
+
+interface CheckWatchesParams {
+  names?: string[];
+  update?: boolean;
+  max_changes?: number;
+}
+
+interface JoinPathParams {
+  from_table: string;
+  to_table: string;
+}
+
+interface BuildQueryParams extends QuerySpec, AgeFilterParams, ResponseShape {
+  execute?: boolean;
+  output_format?: OutputFormat;
+}
+
+interface ResultOperationParams extends ResponseShape {
+  result_id: string;
+  columns?: string[];
+  filters?: FilterPredicate[];
+  match?: "all" | "any";
+  sort?: SortKey[];
+  by?: string[];
+  aggregations?: Aggregation[];
+  output_format?: OutputFormat;
+}
+
+interface JoinResultsParams extends ResponseShape {
+  left_result_id: string;
+  right_result_id: string;
+  left_key: string;
+  right_key: string;
+  type?: "inner" | "left";
+  right_prefix?: string;
+  output_format?: OutputFormat;
+}
+
+interface ContinueResultParams extends ResponseShape {
+  cursor: string;
+  output_format?: OutputFormat;
+}
+
+interface TransportOptions extends HttpTransportOptions {
+  transport: "stdio" | "sse";
+}
+
+/**
+ * Sends MCP progress notifications for the current request
+ */
+type ProgressReporter = (progress: number, total?: number) => Promise<void>;
+
+// Post-processing step applied to a search payload before it is formatted
+type Refinement = (payload: Record<string, unknown>) => Promise<Record<string, unknown>>;
+
+/**
+ * Apply the given refinements in order; undefined when there are none
+ */
+function chainRefinements(steps: (Refinement | undefined | false)[]): Refinement | undefined {
+  const active = steps.filter((step): step is Refinement => Boolean(step));
+  if (active.length === 0) return undefined;
+  return async payload => {
+    for (const step of active) payload = await step(payload);
+    return payload;
+  };
 }
 
 /**
  * DANDI Query Server implementation
  */
 class DandiQueryServer {
-  private server: Server;
-  private axiosInstance;
+  private servers = new Set<Server>();
+  private httpServer?: HttpServer;
+  private backends: BackendRegistry;
+  private resultStore = new ResultStore({
+    maxEntries: RESULT_STORE_MAX_ENTRIES,
+    maxRows: RESULT_STORE_MAX_ROWS,
+    directory: RESULT_STORE_DIR,
+    maxFiles: RESULT_STORE_MAX_FILES,
+    maxBytes: RESULT_STORE_MAX_BYTES,
+  });
+  private savedQueries = new SavedQueryStore(SAVED_QUERIES_FILE);
+  private watches = new WatchStore(WATCHES_FILE);
+  // Resource URIs each connected client has subscribed to
+  private subscriptions = new WeakMap<Server, Set<string>>();
 
   constructor() {
-    this.server = new Server(
+    const settings = {
+      policy: RESILIENCE_POLICY,
+      defaultTimeoutMs: API_TIMEOUT,
+      schemaCacheTtlMs: SCHEMA_CACHE_TTL,
+      schemaFetchConcurrency: SCHEMA_FETCH_CONCURRENCY,
+      cassette: DANDI_CASSETTE_FILE ? new Cassette(DANDI_CASSETTE_FILE, cassetteMode(DANDI_CASSETTE_MODE)) : undefined,
+    };
+    if (DANDI_BACKENDS_FILE) {
+      const { backends, defaultName } = loadBackendsFile(DANDI_BACKENDS_FILE);
+      this.backends = new BackendRegistry(backends, defaultName, settings);
+    } else {
+      this.backends = new BackendRegistry(
+        [{ name: DEFAULT_BACKEND_NAME, base_url: DANDI_API_BASE, ...(DANDI_SNAPSHOT_FILE && { snapshot: DANDI_SNAPSHOT_FILE }) }],
+        DEFAULT_BACKEND_NAME,
+        settings
+      );
+    }
+
+    process.on('SIGINT', async () => {
+      this.httpServer?.close();
+      await Promise.all([...this.servers].map(server => server.close()));
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Create an MCP server bound to this instance's shared state (HTTP client,
+   * caches, result store). Stdio uses one; the SSE transport creates one per
+   * session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "dandi-query-server",
         version: "0.1.0",
       },
       {
         capabilities: {
-          resources: {},
+          resources: { subscribe: true },
           tools: {},
+          prompts: {},
         },
       }
     );
 
-    this.axiosInstance = axios.create({
-      baseURL: DANDI_API_BASE,
-      timeout: API_TIMEOUT,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    this.setupResourceHandlers(server);
+    this.setupToolHandlers(server);
+    this.setupPromptHandlers(server);
 
-    this.setupResourceHandlers();
-    this.setupToolHandlers();
-    
     // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    server.onerror = (error) => console.error('[MCP Error]', error);
+    server.onclose = () => {
+      this.servers.delete(server);
+      this.subscriptions.delete(server);
+    };
+    this.servers.add(server);
+    return server;
+  }
+
+  /**
+   * Backend named by a tool or resource argument (the default when omitted)
+   */
+  private resolveBackend(name: unknown): Backend {
+    if (name !== undefined && typeof name !== "string") {
+      throw new McpError(ErrorCode.InvalidParams, "backend must be a string");
+    }
+    try {
+      return this.backends.get(name);
+    } catch (error: any) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+  }
+
+  /**
+   * Shared inputSchema property for tools that query a backend
+   */
+  private getBackendProperty() {
+    return {
+      type: "string",
+      enum: this.backends.names,
+      description: `Backend to query (default: ${this.backends.defaultName}); see list_backends`
+    };
   }
 
   /**
    * Setup resource handlers for documentation and examples
    */
-  private setupResourceHandlers() {
+  private setupResourceHandlers(server: Server) {
     // List available documentation resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
       resources: [
+        ...(await this.resultStore.list()).map(result => ({
+          uri: `dandi://results/${result.id}`,
+          name: result.tool ? `Result ${result.id} (${result.tool}, ${result.row_count} rows)` : `Result ${result.id}`,
+          mimeType: "application/json",
+          description: "Stored query result; read with ?page=N&page_size=M&format=json|markdown|csv|ndjson|compact_json"
+        })),
         {
           uri: "dandi://docs/basic-search",
           name: "Basic Search Guide",
@@ -126,399 +570,2609 @@ class DandiQueryServer {
           name: "SQL Query Examples",
           mimeType: "application/json",
           description: "Collection of example SQL queries for common use cases"
+        },
+        ...(await this.listSavedQueries()).map(query => ({
+          uri: `dandi://saved/${query.name}`,
+          name: `Saved query: ${query.name}`,
+          mimeType: "application/json",
+          description: query.description ?? `Saved ${query.kind} query; run with run_saved_query`
+        })),
+        ...(await this.listWatches()).map(watch => ({
+          uri: `dandi://watches/${watch.name}`,
+          name: `Watch: ${watch.name}`,
+          mimeType: "application/json",
+          description: `${watch.description ?? `Watched ${watch.kind}`}; the last check_watches diff (subscribe for updates)`
+        }))
+      ],
+    }));
+
+    // Parameterized resources
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: "dandi://schema/{table}",
+          name: "Table Schema",
+          mimeType: "application/json",
+          description: "Live column list for one table (see get_schema for the table names)"
+        },
+        {
+          uriTemplate: "dandi://saved/{name}",
+          name: "Saved Query",
+          mimeType: "application/json",
+          description: "Definition of a saved query (see list_saved_queries for the names)"
+        },
+        {
+          uriTemplate: "dandi://watches/{name}",
+          name: "Watch",
+          mimeType: "application/json",
+          description: "A watched search with its snapshot summary and last diff (see list_watches for the names)"
+        },
+        {
+          uriTemplate: "dandi://results/{id}{?page,page_size,format}",
+          name: "Stored Result Set",
+          mimeType: "application/json",
+          description: "One page of a result set stored by a query or search tool"
         }
       ],
     }));
 
     // Handle resource reading
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const url = new URL(request.params.uri);
-      const path = url.pathname;
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => this.readResource(request.params.uri));
 
-      switch (path) {
-        case "/docs/basic-search":
-          return {
-            contents: [{
-              uri: request.params.uri,
-              mimeType: "text/markdown",
-              text: this.getBasicSearchGuide()
-            }]
-          };
+    // Subscriptions: watch resources are updated by check_watches
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (!this.subscriptions.has(server)) this.subscriptions.set(server, new Set());
+      this.subscriptions.get(server)!.add(request.params.uri);
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.get(server)?.delete(request.params.uri);
+      return {};
+    });
+  }
 
-        case "/docs/sql-queries":
-          return {
-            contents: [{
-              uri: request.params.uri,
-              mimeType: "text/markdown", 
-              text: this.getSqlQueryGuide()
-            }]
-          };
+  /**
+   * Resolve a dandi:// URI to its contents
+   */
+  private async readResource(uri: string) {
+    const url = new URL(uri);
+    // dandi://docs/schema parses with host "docs" and pathname "/schema"
+    const path = `/${url.host}${url.pathname}`;
+    // Backend-derived resources accept ?backend=<name>
+    const backend = this.resolveBackend(url.searchParams.get("backend") ?? undefined);
+
+    if (path.startsWith("/schema/")) {
+      const table = decodeURIComponent(path.slice("/schema/".length));
+      return {
+        contents: [{
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(await backend.schemaCache.getTable(table), null, 2)
+        }]
+      };
+    }
 
-        case "/docs/schema":
-          return {
-            contents: [{
-              uri: request.params.uri,
-              mimeType: "text/markdown",
-              text: this.getSchemaGuide()
-            }]
-          };
+    if (path.startsWith("/saved/")) {
+      const name = decodeURIComponent(path.slice("/saved/".length));
+      const query = await this.savedQueries.get(name);
+      if (!query) throw new McpError(ErrorCode.InvalidRequest, `Unknown saved query: ${name}`);
+      return {
+        contents: [{
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify(query, null, 2)
+        }]
+      };
+    }
 
-        case "/examples/basic":
-          return {
-            contents: [{
-              uri: request.params.uri,
-              mimeType: "application/json",
-              text: JSON.stringify(this.getBasicSearchExamples(), null, 2)
-            }]
-          };
+    if (path.startsWith("/watches/")) {
+      const name = decodeURIComponent(path.slice("/watches/".length));
+      const watch = await this.watches.get(name);
+      if (!watch) throw new McpError(ErrorCode.InvalidRequest, `Unknown watch: ${name}`);
+      return {
+        contents: [{
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify({ ...this.describeWatch(watch), last_check: watch.last_check ?? null }, null, 2)
+        }]
+      };
+    }
 
-        case "/examples/sql":
-          return {
-            contents: [{
-              uri: request.params.uri,
-              mimeType: "application/json", 
-              text: JSON.stringify(this.getSqlQueryExamples(), null, 2)
-            }]
-          };
+    if (path.startsWith("/results/")) {
+      return await this.readResultResource(uri, path.slice("/results/".length), url.searchParams);
+    }
 
-        default:
-          throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${path}`);
-      }
-    });
+    switch (path) {
+      case "/docs/basic-search":
+        return {
+          contents: [{
+            uri,
+            mimeType: "text/markdown",
+            text: await this.buildBasicSearchGuide(backend)
+          }]
+        };
+
+      case "/docs/sql-queries":
+        return {
+          contents: [{
+            uri,
+            mimeType: "text/markdown", 
+            text: await this.buildSqlQueryGuide(backend)
+          }]
+        };
+
+      case "/docs/schema":
+        return {
+          contents: [{
+            uri,
+            mimeType: "text/markdown",
+            text: await this.buildSchemaGuide(backend)
+          }]
+        };
+
+      case "/examples/basic":
+        return {
+          contents: [{
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(this.getBasicSearchExamples(), null, 2)
+          }]
+        };
+
+      case "/examples/sql":
+        return {
+          contents: [{
+            uri,
+            mimeType: "application/json", 
+            text: JSON.stringify({
+              ...this.getSqlQueryExamples(),
+              saved_queries: (await this.listSavedQueries())
+                .filter(query => query.kind === "sql")
+                .map(query => ({ name: query.name, description: query.description, uri: `dandi://saved/${query.name}` }))
+            }, null, 2)
+          }]
+        };
+
+      default:
+        throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${path}`);
+    }
   }
 
   /**
-   * Setup tool handlers for query functionality
+   * Tool definitions. Each inputSchema is also enforced on every call.
    */
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: "search_datasets",
-          description: "Search DANDI datasets using basic filters",
-          inputSchema: {
-            type: "object",
-            properties: {
-              name: {
-                type: "string",
-                description: "Search in dataset names"
-              },
-              description: {
-                type: "string", 
-                description: "Search in dataset descriptions"
-              },
-              species: {
-                type: "array",
-                items: { type: "string" },
-                description: "Filter by species (e.g., ['Mus musculus', 'Rattus norvegicus'])"
-              },
-              approach: {
-                type: "array",
-                items: { type: "string" },
-                description: "Filter by experimental approach (e.g., ['electrophysiology'])"
-              },
-              measurement_technique: {
-                type: "array", 
-                items: { type: "string" },
-                description: "Filter by measurement technique (e.g., ['extracellular electrophysiology'])"
-              },
-              anatomy: {
-                type: "array",
-                items: { type: "string" },
-                description: "Filter by anatomical region (e.g., ['hippocampus', 'cortex'])"
-              },
-              limit: {
-                type: "number",
-                description: "Maximum number of results (default: 20, max: 100)",
-                minimum: 1,
-                maximum: 100
-              },
-              offset: {
-                type: "number",
-                description: "Number of results to skip for pagination",
-                minimum: 0
-              }
-            }
-          }
-        },
-        {
-          name: "search_assets",
-          description: "Search DANDI assets (files/sessions) using basic filters",
-          inputSchema: {
-            type: "object",
-            properties: {
-              dandiset_id: {
-                type: "number",
-                description: "Filter by specific dataset ID"
-              },
-              session_type: {
-                type: "array",
-                items: { type: "string" },
-                description: "Filter by session type"
-              },
-              variable_measured: {
-                type: "array",
-                items: { type: "string" },
-                description: "Filter by variables measured (e.g., ['ElectricalSeries'])"
-              },
-              species: {
-                type: "array",
-                items: { type: "string" },
-                description: "Filter by species"
-              },
-              limit: {
-                type: "number", 
-                description: "Maximum number of results (default: 20, max: 100)",
-                minimum: 1,
-                maximum: 100
-              },
-              offset: {
-                type: "number",
-                description: "Number of results to skip for pagination",
-                minimum: 0
-              }
-            }
-          }
-        },
-        {
-          name: "execute_sql",
-          description: "Execute advanced SQL queries against the DANDI database",
-          inputSchema: {
-            type: "object",
-            properties: {
-              sql: {
-                type: "string",
-                description: "SQL query to execute (SELECT statements only, max 10,000 chars)"
-              }
+  private getToolDefinitions(): ToolDefinition[] {
+    const tools: ToolDefinition[] = [
+      {
+        name: "search_datasets",
+        description: "Search DANDI datasets using basic filters",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            name: {
+              type: "string",
+              description: "Search in dataset names"
+            },
+            description: {
+              type: "string", 
+              description: "Search in dataset descriptions"
+            },
+            species: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by species (e.g., ['Mus musculus'] or ['mouse', 'rat'])"
             },
-            required: ["sql"]
+            approach: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by experimental approach (e.g., ['electrophysiological approach'] or ['ephys'])"
+            },
+            measurement_technique: {
+              type: "array", 
+              items: { type: "string" },
+              description: "Filter by measurement technique (e.g., ['extracellular electrophysiology'])"
+            },
+            anatomy: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by anatomical region (e.g., ['hippocampus', 'CA1']); sub-regions are included"
+            },
+            disorder: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by disorder studied (e.g., ['epilepsy']); runs as generated SQL"
+            },
+            sex: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by participant sex (e.g., ['female']); matches datasets with any such participant; runs as generated SQL"
+            },
+            session_type: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by session type of any asset (e.g., ['ecephys']); runs as generated SQL"
+            },
+            variable_measured: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by variables measured in any asset (e.g., ['ElectricalSeries']); runs as generated SQL"
+            },
+            filter_modes: FILTER_MODES_PROPERTY,
+            ...FACET_PROPERTIES,
+            limit: {
+              type: "number",
+              description: "Maximum number of results (default: 20, max: 100)",
+              minimum: 1,
+              maximum: 100
+            },
+            offset: {
+              type: "number",
+              description: "Number of results to skip for pagination",
+              minimum: 0
+            },
+            fetch_all: {
+              type: "boolean",
+              description: "Walk every page until the total count is reached and return one merged, de-duplicated result list (limit/offset are ignored)"
+            },
+            max_rows: {
+              type: "number",
+              description: `Row ceiling for fetch_all (default and max: ${FETCH_ALL_MAX_ROWS})`,
+              minimum: 1,
+              maximum: FETCH_ALL_MAX_ROWS
+            },
+            max_pages: {
+              type: "number",
+              description: `Page ceiling for fetch_all (default and max: ${FETCH_ALL_MAX_PAGES})`,
+              minimum: 1,
+              maximum: FETCH_ALL_MAX_PAGES
+            },
+            exact_terms: EXACT_TERMS_PROPERTY,
+            output_format: OUTPUT_FORMAT_PROPERTY
           }
-        },
-        {
-          name: "validate_sql",
-          description: "Validate SQL query without executing it",
-          inputSchema: {
-            type: "object",
-            properties: {
-              sql: {
-                type: "string",
-                description: "SQL query to validate"
-              }
+        }
+      },
+      {
+        name: "search_assets",
+        description: "Search DANDI assets (files/sessions) using basic filters",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            dandiset_id: {
+              type: "number",
+              description: "Filter by specific dataset ID"
+            },
+            session_type: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by session type"
+            },
+            variable_measured: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by variables measured (e.g., ['ElectricalSeries'])"
+            },
+            species: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by species (e.g., ['Mus musculus'] or ['mouse'])"
+            },
+            anatomy: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by anatomical region of the asset's dataset (e.g., ['CA1']); runs as generated SQL"
+            },
+            approach: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by experimental approach (e.g., ['ephys']); runs as generated SQL"
+            },
+            measurement_technique: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by measurement technique (e.g., ['patch clamp']); runs as generated SQL"
             },
-            required: ["sql"]
+            disorder: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by disorder studied in the asset's dataset; runs as generated SQL"
+            },
+            sex: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by participant sex (e.g., ['male']); runs as generated SQL"
+            },
+            filter_modes: FILTER_MODES_PROPERTY,
+            ...FACET_PROPERTIES,
+            exact_terms: EXACT_TERMS_PROPERTY,
+            ...AGE_FILTER_PROPERTIES,
+            limit: {
+              type: "number", 
+              description: "Maximum number of results (default: 20, max: 100)",
+              minimum: 1,
+              maximum: 100
+            },
+            offset: {
+              type: "number",
+              description: "Number of results to skip for pagination",
+              minimum: 0
+            },
+            fetch_all: {
+              type: "boolean",
+              description: "Walk every page until the total count is reached and return one merged, de-duplicated result list (limit/offset are ignored)"
+            },
+            max_rows: {
+              type: "number",
+              description: `Row ceiling for fetch_all (default and max: ${FETCH_ALL_MAX_ROWS})`,
+              minimum: 1,
+              maximum: FETCH_ALL_MAX_ROWS
+            },
+            max_pages: {
+              type: "number",
+              description: `Page ceiling for fetch_all (default and max: ${FETCH_ALL_MAX_PAGES})`,
+              minimum: 1,
+              maximum: FETCH_ALL_MAX_PAGES
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
           }
-        },
-        {
-          name: "get_schema",
-          description: "Get database schema information",
-          inputSchema: {
-            type: "object",
-            properties: {
-              table: {
-                type: "string",
-                description: "Specific table name to get details for (optional)"
-              }
+        }
+      },
+      {
+        name: "execute_sql",
+        description: "Execute advanced SQL queries against the DANDI database",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            sql: {
+              type: "string",
+              description: `SQL query to execute (SELECT statements only, max ${MAX_SQL_LENGTH.toLocaleString("en-US")} chars)`
+            },
+            timeout_ms: {
+              ...QUERY_TIMEOUT_PROPERTY,
+              description: `Stop waiting after this many milliseconds (default: ${API_TIMEOUT}). Bounds the whole call, which is then not retried. Client-side only: the query keeps running on the server until the backend's own limit`
+            },
+            max_cost: {
+              type: "number",
+              description: `Refuse the query when its EXPLAIN cost estimate exceeds this (planner units; default: ${MAX_QUERY_COST || "no check"})`,
+              minimum: 0
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["sql"]
+        }
+      },
+      {
+        name: "explain_sql",
+        description: "Show the query plan for a SELECT with estimated rows and cost, and warnings such as sequential scans of dandisets_asset, without running it (unless analyze is set)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            sql: {
+              type: "string",
+              description: "SQL query to explain (SELECT statements only)"
+            },
+            analyze: {
+              type: "boolean",
+              description: "Also run the query with EXPLAIN ANALYZE for actual rows and timings (default: false); skipped when the estimate exceeds max_cost, and never retried since it runs the query"
+            },
+            max_cost: {
+              type: "number",
+              description: `Largest estimated cost for which analyze runs the query (default: ${EXPLAIN_ANALYZE_MAX_COST})`,
+              minimum: 0
+            },
+            timeout_ms: {
+              ...QUERY_TIMEOUT_PROPERTY,
+              description: `Stop waiting for the plan after this many milliseconds (default: ${API_TIMEOUT}). Bounds the whole call, which is then not retried. Client-side only: an EXPLAIN ANALYZE keeps running on the server until the backend's own limit`
+            }
+          },
+          required: ["sql"]
+        }
+      },
+      {
+        name: "validate_sql",
+        description: "Validate SQL query without executing it (local safety analysis merged with the backend's verdict)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            sql: {
+              type: "string",
+              description: "SQL query to validate"
+            }
+          },
+          required: ["sql"]
+        }
+      },
+      {
+        name: "get_schema",
+        description: "Get database schema information",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            table: {
+              type: "string",
+              description: "Specific table name to get details for (optional)"
+            },
+            refresh: {
+              type: "boolean",
+              description: "Bypass the schema cache"
             }
           }
-        },
-        {
-          name: "get_filter_options",
-          description: "Get available filter options for basic search",
-          inputSchema: {
-            type: "object",
-            properties: {}
-          }
-        },
-        {
-          name: "get_full_schema",
-          description: "Get complete database schema with all tables and their columns",
-          inputSchema: {
-            type: "object",
-            properties: {}
+        }
+      },
+      {
+        name: "get_filter_options",
+        description: "Get available filter options for basic search",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty()
           }
         }
-      ]
-    }));
+      },
+      {
+        name: "resolve_terms",
+        description: "Show how filter terms such as 'mouse', 'CA1' or 'ephys' map to canonical filter values, with scored candidates",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            terms: {
+              type: "array",
+              items: { type: "string" },
+              description: "Terms to resolve"
+            },
+            filter: {
+              type: "string",
+              enum: RESOLVABLE_FILTERS,
+              description: "Filter to resolve against (default: all of them)"
+            },
+            limit: {
+              type: "integer",
+              minimum: 1,
+              maximum: 50,
+              description: "Candidates listed per term and filter (default: 5)"
+            }
+          },
+          required: ["terms"]
+        }
+      },
+      {
+        name: "get_dandiset",
+        description: "Get a consolidated profile of one dandiset: metadata, asset count and total size, subject count, sessions per subject, species/sex/age breakdown, variable_measured histogram and largest files",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            dandiset_id: {
+              type: ["integer", "string"],
+              description: "Dandiset archive identifier: 124, \"000124\" or \"DANDI:000124\""
+            },
+            version: {
+              type: "string",
+              description: `Version to profile: "latest" (default), "draft" or a published version such as "0.230101.1234"`
+            },
+            internal_id: {
+              type: "boolean",
+              description: "Treat dandiset_id as the internal dandisets_dandiset.id of one version row instead of the archive identifier (default false)"
+            },
+            largest_files: {
+              type: "integer",
+              description: `Number of largest files to list (default ${DEFAULT_LARGEST_FILES}, max ${MAX_LARGEST_FILES})`,
+              minimum: 1,
+              maximum: MAX_LARGEST_FILES
+            }
+          },
+          required: ["dandiset_id"]
+        }
+      },
+      {
+        name: "save_query",
+        description: "Save a SQL query or basic-search arguments under a name, with typed {{placeholders}} bound safely at run time",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            name: {
+              type: "string",
+              description: "Query name: lowercase letters, digits, '_' or '-'"
+            },
+            description: {
+              type: "string",
+              description: "What the query answers"
+            },
+            kind: {
+              type: "string",
+              enum: SAVED_QUERY_KINDS,
+              description: "sql, or the search tool the arguments are for"
+            },
+            sql: {
+              type: "string",
+              description: "For kind 'sql'. Placeholders are SQL expressions, e.g. WHERE d.id = {{dandiset_id}}, name ILIKE '%' || {{term}} || '%', id IN ({{ids}})"
+            },
+            arguments: {
+              type: "object",
+              description: "For search kinds: tool arguments where a whole value may be a placeholder, e.g. {\"species\": \"{{species}}\"}"
+            },
+            parameters: {
+              type: "array",
+              description: "Placeholder definitions",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  type: { type: "string", enum: PARAMETER_TYPES },
+                  description: { type: "string" },
+                  default: { description: "Makes the parameter optional" }
+                },
+                required: ["name", "type"]
+              }
+            },
+            overwrite: {
+              type: "boolean",
+              description: "Replace an existing query with the same name"
+            }
+          },
+          required: ["name", "kind"]
+        }
+      },
+      {
+        name: "list_saved_queries",
+        description: "List saved queries with their parameters",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "run_saved_query",
+        description: "Run a saved query with bound parameter values",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            name: {
+              type: "string",
+              description: "Saved query name"
+            },
+            parameters: {
+              type: "object",
+              description: "Parameter values by name; values are checked against the declared types"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["name"]
+        }
+      },
+      {
+        name: "delete_saved_query",
+        description: "Delete a saved query",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Saved query name"
+            }
+          },
+          required: ["name"]
+        }
+      },
+      {
+        name: "create_watch",
+        description: "Watch a search or SQL query for new, removed or changed rows: stores a snapshot of the current results for check_watches to compare against",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            name: {
+              type: "string",
+              description: "Watch name: lowercase letters, digits, '_' or '-'"
+            },
+            description: {
+              type: "string",
+              description: "What the watch is looking for"
+            },
+            kind: {
+              type: "string",
+              enum: WATCH_KINDS,
+              description: "The search tool to re-run, or sql"
+            },
+            arguments: {
+              type: "object",
+              description: "For search kinds: the search_datasets/search_assets filters (paging options are ignored; every page is fetched)"
+            },
+            sql: {
+              type: "string",
+              description: "For kind 'sql': a read-only query whose rows carry the key column(s)"
+            },
+            key: {
+              type: "array",
+              items: { type: "string" },
+              description: "Column(s) identifying a row (default: [\"id\"])"
+            },
+            max_rows: {
+              type: "integer",
+              minimum: 1,
+              maximum: FETCH_ALL_MAX_ROWS,
+              description: `Rows tracked for search kinds (default and maximum ${FETCH_ALL_MAX_ROWS})`
+            },
+            overwrite: {
+              type: "boolean",
+              description: "Replace an existing watch with the same name (its snapshot is retaken)"
+            }
+          },
+          required: ["name", "kind"]
+        }
+      },
+      {
+        name: "list_watches",
+        description: "List watches with their snapshot size and last check",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "check_watches",
+        description: "Re-run watched searches and report rows added, removed or changed since the last snapshot",
+        inputSchema: {
+          type: "object",
+          properties: {
+            names: {
+              type: "array",
+              items: { type: "string" },
+              description: "Watches to check (default: all)"
+            },
+            update: {
+              type: "boolean",
+              description: "Make the new results the snapshot (default: true). Pass false to preview changes."
+            },
+            max_changes: {
+              type: "integer",
+              minimum: 0,
+              description: `Rows listed per category and watch (default ${WATCH_MAX_CHANGES}); counts are always complete`
+            }
+          }
+        }
+      },
+      {
+        name: "delete_watch",
+        description: "Delete a watch and its snapshot",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Watch name"
+            }
+          },
+          required: ["name"]
+        }
+      },
+      {
+        name: "list_backends",
+        description: "List the configured dandi-sql backends with a live health check (reachability, latency, circuit-breaker state)",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        }
+      },
+      {
+        name: "get_full_schema",
+        description: "Get complete database schema with all tables and their columns",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            refresh: {
+              type: "boolean",
+              description: "Bypass the schema cache"
+            }
+          }
+        }
+      },
+      {
+        name: "find_join_path",
+        description: "Find the shortest join chain between two tables using the foreign keys in the live schema, with ready-to-use JOIN ... ON clauses",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            from_table: {
+              type: "string",
+              description: "Starting table (e.g. 'dandisets_dandiset' or 'dandiset')"
+            },
+            to_table: {
+              type: "string",
+              description: "Target table (e.g. 'dandisets_speciestype' or 'speciestype')"
+            }
+          },
+          required: ["from_table", "to_table"]
+        }
+      },
+      {
+        name: "build_query",
+        description: "Compile a structured query spec into validated SQL over the DANDI tables (handles the asset/dandiset/participant joins), optionally executing it",
+        inputSchema: {
+          type: "object",
+          properties: {
+            backend: this.getBackendProperty(),
+            target: {
+              type: "string",
+              enum: QUERY_TARGETS,
+              description: "Entity to return: one row per dandiset, asset or participant"
+            },
+            species: {
+              type: "array",
+              items: { type: "string" },
+              description: "Species name substrings (any match), e.g. ['Mus musculus']"
+            },
+            anatomy: {
+              type: "array",
+              items: { type: "string" },
+              description: "Anatomy name substrings (any match), e.g. ['hippocampus']"
+            },
+            approach: {
+              type: "array",
+              items: { type: "string" },
+              description: "Approach name substrings (any match), e.g. ['electrophysiological']"
+            },
+            measurement_technique: {
+              type: "array",
+              items: { type: "string" },
+              description: "Measurement technique name substrings (any match)"
+            },
+            variable_measured: {
+              type: "array",
+              items: { type: "string" },
+              description: "Variable measured substrings (any match), e.g. ['ElectricalSeries']"
+            },
+            dandiset_id: {
+              type: "number",
+              description: "Restrict to one dataset"
+            },
+            min_subjects: {
+              type: "number",
+              description: "Keep only dandisets with at least this many qualifying subjects",
+              minimum: 1
+            },
+            min_sessions_per_subject: {
+              type: "number",
+              description: "Count only subjects with at least this many matching assets (sessions)",
+              minimum: 1
+            },
+            min_size_bytes: {
+              type: "number",
+              description: "Minimum asset size in bytes",
+              minimum: 0
+            },
+            max_size_bytes: {
+              type: "number",
+              description: "Maximum asset size in bytes",
+              minimum: 0
+            },
+            ...AGE_FILTER_PROPERTIES,
+            aggregations: {
+              type: "array",
+              items: { type: "string", enum: QUERY_AGGREGATIONS },
+              description: "Aggregates for dandiset/participant targets (default: all)"
+            },
+            order_by: {
+              type: "string",
+              description: "Output column to sort by"
+            },
+            order_direction: {
+              type: "string",
+              enum: ["asc", "desc"],
+              description: "Sort direction for order_by (default: desc)"
+            },
+            limit: {
+              type: "number",
+              description: `Maximum rows (default: 100, max: ${BUILD_QUERY_MAX_LIMIT})`,
+              minimum: 1,
+              maximum: BUILD_QUERY_MAX_LIMIT
+            },
+            execute: {
+              type: "boolean",
+              description: "Also execute the generated SQL and return its results"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["target"]
+        }
+      },
+      {
+        name: "project_result",
+        description: "Keep selected columns of a stored result set (dotted names reach into nested fields)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            result_id: {
+              type: "string",
+              description: "Id of a stored result set (returned by execute_sql, search_* and the *_result tools)"
+            },
+            columns: {
+              type: "array",
+              items: { type: "string" },
+              description: "Columns to keep, in order"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["result_id", "columns"]
+        }
+      },
+      {
+        name: "filter_result",
+        description: "Filter the rows of a stored result set with predicates",
+        inputSchema: {
+          type: "object",
+          properties: {
+            result_id: {
+              type: "string",
+              description: "Id of a stored result set"
+            },
+            filters: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  column: { type: "string" },
+                  op: { type: "string", enum: FILTER_OPERATORS },
+                  value: { description: "Comparison value (array for in/not_in, omitted for is_null/not_null)" }
+                },
+                required: ["column", "op"]
+              },
+              description: "Predicates, e.g. [{\"column\": \"content_size\", \"op\": \"gt\", \"value\": 1e9}]"
+            },
+            match: {
+              type: "string",
+              enum: ["all", "any"],
+              description: "Whether rows must match all predicates (default) or any"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["result_id", "filters"]
+        }
+      },
+      {
+        name: "sort_result",
+        description: "Sort the rows of a stored result set",
+        inputSchema: {
+          type: "object",
+          properties: {
+            result_id: {
+              type: "string",
+              description: "Id of a stored result set"
+            },
+            sort: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  column: { type: "string" },
+                  direction: { type: "string", enum: ["asc", "desc"] }
+                },
+                required: ["column"]
+              },
+              description: "Sort keys in priority order; NULLs sort last"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["result_id", "sort"]
+        }
+      },
+      {
+        name: "group_result",
+        description: "Group a stored result set by columns and compute counts, sums and other aggregates",
+        inputSchema: {
+          type: "object",
+          properties: {
+            result_id: {
+              type: "string",
+              description: "Id of a stored result set"
+            },
+            by: {
+              type: "array",
+              items: { type: "string" },
+              description: "Columns to group by"
+            },
+            aggregations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  op: { type: "string", enum: AGGREGATE_OPERATORS },
+                  column: { type: "string" },
+                  as: { type: "string" }
+                },
+                required: ["op"]
+              },
+              description: "Aggregates per group (default: [{\"op\": \"count\"}])"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["result_id", "by"]
+        }
+      },
+      {
+        name: "join_results",
+        description: "Join two stored result sets on a key column",
+        inputSchema: {
+          type: "object",
+          properties: {
+            left_result_id: {
+              type: "string",
+              description: "Id of the left result set"
+            },
+            right_result_id: {
+              type: "string",
+              description: "Id of the right result set"
+            },
+            left_key: {
+              type: "string",
+              description: "Join column in the left result set"
+            },
+            right_key: {
+              type: "string",
+              description: "Join column in the right result set"
+            },
+            type: {
+              type: "string",
+              enum: ["inner", "left"],
+              description: "Join type (default: inner)"
+            },
+            right_prefix: {
+              type: "string",
+              description: "Prefix for right-hand columns whose names collide (default: right_)"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["left_result_id", "right_result_id", "left_key", "right_key"]
+        }
+      },
+      {
+        name: "continue_result",
+        description: "Continue a truncated row result from its cursor",
+        inputSchema: {
+          type: "object",
+          properties: {
+            cursor: {
+              type: "string",
+              description: "Cursor from the truncation (or note) of a previous response"
+            },
+            output_format: OUTPUT_FORMAT_PROPERTY
+          },
+          required: ["cursor"]
+        }
+      }
+    ];
+
+    // Every tool takes a response budget; tools returning rows also take a projection
+    return tools.map(tool => ({
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          ...("output_format" in (tool.inputSchema.properties ?? {}) && { fields: FIELDS_PROPERTY }),
+          max_chars: MAX_CHARS_PROPERTY
+        }
+      }
+    }));
+  }
+
+  /**
+   * Check arguments against a tool's inputSchema, returning them with
+   * single values wrapped where the schema expects an array
+   */
+  private validateToolArguments(tool: ToolDefinition | string, args: unknown): Record<string, unknown> {
+    const definition = typeof tool === "string"
+      ? this.getToolDefinitions().find(candidate => candidate.name === tool)!
+      : tool;
+    try {
+      return validateArguments(definition.inputSchema, args);
+    } catch (error) {
+      if (error instanceof ArgumentValidationError) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${definition.name}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Setup tool handlers for query functionality
+   */
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.getToolDefinitions()
+    }));
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const tool = this.getToolDefinitions().find(definition => definition.name === request.params.name);
+      if (!tool) {
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+      }
+      const args = this.validateToolArguments(tool, request.params.arguments);
+      const backend = this.resolveBackend(args.backend);
+      const progressToken = request.params._meta?.progressToken;
+      const reportProgress: ProgressReporter | undefined = progressToken === undefined
+        ? undefined
+        : (progress, total) => server.notification({
+            method: "notifications/progress",
+            params: { progressToken, progress, total },
+          });
+
+      const result = await this.callTool(tool.name, args, backend, reportProgress);
+      const content = fitContent(result.content, (args as ResponseShape).max_chars ?? DEFAULT_MAX_RESPONSE_CHARS);
+      return { ...result, content: backend.snapshot ? [...content, await this.snapshotNotice(backend.snapshot)] : content };
+    });
+  }
+
+  /**
+   * Trailing content block saying which snapshot answered a call and how old it is
+   */
+  private async snapshotNotice(snapshot: SnapshotEngine) {
+    let notice: Record<string, unknown>;
+    try {
+      notice = { offline_snapshot: await snapshot.info() };
+    } catch (error) {
+      notice = { offline_snapshot: { file: snapshot.path, error: this.describeError(error, "Snapshot unreadable").error } };
+    }
+    return { type: "text", text: JSON.stringify(notice) };
+  }
+
+  /**
+   * Run a tool with validated arguments
+   */
+  private async callTool(name: string, args: Record<string, unknown>, backend: Backend, reportProgress?: ProgressReporter) {
+    switch (name) {
+      case "search_datasets":
+        return await this.handleSearchDatasets(backend, args as DandiSearchParams, reportProgress);
+      
+      case "search_assets":
+        return await this.handleSearchAssets(backend, args as DandiSearchParams, reportProgress);
+      
+      case "execute_sql":
+        return await this.handleExecuteSql(backend, args as unknown as SqlQueryParams);
+      
+      case "validate_sql":
+        return await this.handleValidateSql(backend, args as unknown as SqlQueryParams);
+
+      case "explain_sql":
+        return await this.handleExplainSql(backend, args as unknown as ExplainSqlParams);
+      
+      case "get_schema":
+        return await this.handleGetSchema(backend, args as SchemaQueryParams);
+      
+      case "get_filter_options":
+        return await this.handleGetFilterOptions(backend);
+
+      case "resolve_terms":
+        return await this.handleResolveTerms(backend, args as unknown as ResolveTermsParams);
+
+      case "get_dandiset":
+        return await this.handleGetDandiset(backend, args as unknown as DandisetProfileParams);
+
+      case "save_query":
+        return await this.handleSaveQuery(backend, args as unknown as SaveQueryParams);
+
+      case "list_saved_queries":
+        return await this.handleListSavedQueries();
+
+      case "run_saved_query":
+        return await this.handleRunSavedQuery(backend, args as unknown as RunSavedQueryParams, reportProgress);
+
+      case "delete_saved_query":
+        return await this.handleDeleteSavedQuery(args as unknown as { name: string });
+
+      case "create_watch":
+        return await this.handleCreateWatch(backend, args as unknown as CreateWatchParams);
+
+      case "list_watches":
+        return await this.handleListWatches();
+
+      case "check_watches":
+        return await this.handleCheckWatches(args as unknown as CheckWatchesParams, reportProgress);
+
+      case "delete_watch":
+        return await this.handleDeleteWatch(args as unknown as { name: string });
+
+      case "list_backends":
+        return await this.handleListBackends();
+
+      case "get_full_schema":
+        return await this.handleGetFullSchema(backend, args as SchemaQueryParams);
+
+      case "find_join_path":
+        return await this.handleFindJoinPath(backend, args as unknown as JoinPathParams);
+
+      case "build_query":
+        return await this.handleBuildQuery(backend, args as unknown as BuildQueryParams);
+
+      case "project_result": {
+        const params = args as unknown as ResultOperationParams;
+        return await this.handleResultOperation("project_result", params, table => projectRows(table, params.columns ?? []));
+      }
+
+      case "filter_result": {
+        const params = args as unknown as ResultOperationParams;
+        return await this.handleResultOperation("filter_result", params, table => filterRows(table, params.filters ?? [], params.match));
+      }
+
+      case "sort_result": {
+        const params = args as unknown as ResultOperationParams;
+        return await this.handleResultOperation("sort_result", params, table => sortRows(table, params.sort ?? []));
+      }
+
+      case "group_result": {
+        const params = args as unknown as ResultOperationParams;
+        return await this.handleResultOperation("group_result", params, table => groupRows(table, params.by ?? [], params.aggregations));
+      }
+
+      case "join_results":
+        return await this.handleJoinResults(args as unknown as JoinResultsParams);
+
+      case "continue_result":
+        return await this.handleContinueResult(args as unknown as ContinueResultParams);
+
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Setup prompt handlers for research workflows
+   */
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const prompt = PROMPTS.find(p => p.name === request.params.name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+      }
+
+      let args: Record<string, string>;
+      try {
+        args = bindPromptArguments(prompt, request.params.arguments);
+      } catch (error: any) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      const resources = await Promise.all(prompt.resources.map(async uri => (await this.readResource(uri)).contents[0]));
+      const messages: any[] = resources.map(resource => ({
+        role: "user",
+        content: { type: "resource", resource }
+      }));
+
+      if (Object.keys(prompt.filterArguments).some(name => args[name])) {
+        let filterText: string;
+        try {
+          const matches = matchFilterOptions(prompt, args, await this.fetchFilterOptions(this.backends.get()));
+          filterText = `Filter options matching the arguments (empty lists mean no exact option matched; check get_filter_options):\n\n${JSON.stringify(matches, null, 2)}`;
+        } catch (error) {
+          filterText = "Filter options could not be loaded; call get_filter_options to check valid values.";
+        }
+        messages.push({ role: "user", content: { type: "text", text: filterText } });
+      }
+
+      messages.push({ role: "user", content: { type: "text", text: prompt.instructions(args) } });
+
+      return {
+        description: prompt.description,
+        messages
+      };
+    });
+  }
+
+  /**
+   * Tool handler implementations
+   */
+  private async handleSearchDatasets(backend: Backend, params: DandiSearchParams, reportProgress?: ProgressReporter) {
+    try {
+      const terms = await this.resolveSearchTerms(backend, params);
+      const criteria = this.filterCriteria(terms.params, terms.groups);
+      const refine = chainRefinements([
+        terms.report && (async payload => ({ ...payload, term_resolution: terms.report })),
+        this.facetRefinement(backend, 'search_datasets', criteria, terms.params),
+      ]);
+
+      const fallback = this.sqlSearchReasons(backend, 'search_datasets', criteria);
+      if (fallback.length > 0) {
+        return await this.sqlSearch(backend, 'search_datasets', criteria, fallback, params, reportProgress, refine);
+      }
+
+      const searchParams = this.datasetSearchParams(terms.params);
+      if (params.fetch_all) {
+        return await this.fetchAllResults(backend, 'search_datasets', '/api/search/', searchParams, params, reportProgress, 'datasets', refine);
+      }
+
+      if (params.limit) searchParams.append('limit', params.limit.toString());
+      if (params.offset) searchParams.append('offset', params.offset.toString());
+
+      const response = await backend.client.get(`/api/search/?${searchParams.toString()}`);
+      let payload: Record<string, unknown> = {
+        success: true,
+        results: response.data.results,
+        total: response.data.count,
+        message: `Found ${response.data.count} datasets`
+      };
+      if (refine) payload = await refine(payload);
+      
+      return {
+        content: await this.storeAndFormatRows("search_datasets", params, payload, params.output_format)
+      };
+    } catch (error) {
+      return this.handleError(error, "Dataset search failed");
+    }
+  }
+
+  private async handleSearchAssets(backend: Backend, params: DandiSearchParams, reportProgress?: ProgressReporter) {
+    try {
+      const terms = await this.resolveSearchTerms(backend, params);
+      const criteria = this.filterCriteria(terms.params, terms.groups);
+      const ageFilter = buildAgeFilter(params.min_age, params.max_age, params.age_reference);
+      const ageInSql = ageFilter !== undefined && await this.ageValuesAvailable(backend);
+      const fallback = [
+        ...this.sqlSearchReasons(backend, 'search_assets', criteria),
+        ...(ageInSql ? ["an age filter is set"] : []),
+      ];
+      const refine = chainRefinements([
+        // Without the raw age values only the fetched pages can be filtered
+        ageFilter && !ageInSql && (payload => this.filterAssetsByAge(backend, payload, ageFilter)),
+        terms.report && (async payload => ({ ...payload, term_resolution: terms.report })),
+        this.facetRefinement(backend, 'search_assets', criteria, terms.params, ageFilter, ageInSql),
+      ]);
+
+      if (fallback.length > 0) {
+        return await this.sqlSearch(backend, 'search_assets', criteria, fallback, params, reportProgress, refine, ageInSql ? ageFilter : undefined);
+      }
+
+      const searchParams = this.assetSearchParams(terms.params);
+      if (params.fetch_all) {
+        return await this.fetchAllResults(backend, 'search_assets', '/api/assets/search/', searchParams, params, reportProgress, 'assets', refine);
+      }
+
+      if (params.limit) searchParams.append('limit', params.limit.toString());
+      if (params.offset) searchParams.append('offset', params.offset.toString());
+
+      const response = await backend.client.get(`/api/assets/search/?${searchParams.toString()}`);
+      let payload: Record<string, unknown> = {
+        success: true,
+        results: response.data.results,
+        total: response.data.count,
+        message: `Found ${response.data.count} assets`
+      };
+      if (refine) payload = await refine(payload);
+      
+      return {
+        content: await this.storeAndFormatRows("search_assets", params, payload, params.output_format)
+      };
+    } catch (error) {
+      return this.handleError(error, "Asset search failed");
+    }
+  }
+
+  /**
+   * Resolve the filter terms of a search to canonical filter values. The
+   * report lists each term that was not used exactly as given; without
+   * filter options the terms are sent unchanged. `groups` keeps the values
+   * each term resolved to, for filters combined with mode all.
+   */
+  private async resolveSearchTerms(backend: Backend, params: DandiSearchParams): Promise<{
+    params: DandiSearchParams;
+    groups?: Partial<Record<SearchFilter, string[][]>>;
+    report?: { resolutions?: TermResolution[]; note: string };
+  }> {
+    const present = RESOLVABLE_FILTERS.filter(filter => params[filter]?.length);
+    if (params.exact_terms || present.length === 0) return { params };
+
+    let vocabularies;
+    try {
+      vocabularies = buildVocabularies(await this.fetchFilterOptions(backend));
+    } catch (error) {
+      console.warn('Filter options unavailable for term resolution:', error);
+      return { params, report: { note: "Filter options unavailable; terms were sent unchanged" } };
+    }
+
+    const resolved: DandiSearchParams = { ...params };
+    const groups: Partial<Record<SearchFilter, string[][]>> = {};
+    const resolutions: TermResolution[] = [];
+    for (const filter of present) {
+      const vocabulary = vocabularies[filter];
+      if (!vocabulary) continue;
+      groups[filter] = params[filter]!.map(term => {
+        const resolution = vocabulary.resolve(term);
+        if (resolution.method !== "exact" || resolution.resolved.length > 1) resolutions.push(resolution);
+        return resolution.resolved;
+      });
+      resolved[filter] = [...new Set(groups[filter]!.flat())];
+    }
+
+    return {
+      params: resolved,
+      groups,
+      ...(resolutions.length > 0 && {
+        report: {
+          resolutions,
+          note: "Filter terms were mapped to canonical values; pass exact_terms: true to send them unchanged"
+        }
+      })
+    };
+  }
+
+  /**
+   * The filters a search uses with their modes; each value keeps the
+   * alternatives it resolved to
+   */
+  private filterCriteria(params: DandiSearchParams, groups: Partial<Record<SearchFilter, string[][]>> = {}): FilterCriterion[] {
+    return SEARCH_FILTERS
+      .filter(filter => params[filter]?.length)
+      .map(filter => ({
+        filter,
+        mode: params.filter_modes?.[filter] ?? "any",
+        values: groups[filter] ?? params[filter]!.map(value => [value]),
+      }));
+  }
+
+  /**
+   * Refinement adding facet counts over the whole match set, when requested.
+   * Without participant ages (`agesAvailable` false) the counts leave the age
+   * filter out and say so.
+   */
+  private facetRefinement(
+    backend: Backend,
+    tool: SearchTool,
+    criteria: FilterCriterion[],
+    params: DandiSearchParams,
+    ageFilter?: AgeFilter,
+    agesAvailable = true
+  ): Refinement | undefined {
+    const facets = params.facets === true ? [...FACETS] : params.facets || [];
+    if (facets.length === 0) return undefined;
+
+    return async payload => {
+      const ages = ageFilter && agesAvailable ? await this.resolveAgeValues(backend, ageFilter) : undefined;
+      const queries = buildFacetQueries(tool, criteria, {
+        name: params.name,
+        description: params.description,
+        dandiset_id: params.dandiset_id,
+        age_values: ages?.values,
+      }, facets, params.facet_limit ?? DEFAULT_FACET_LIMIT);
+
+      const counts: Partial<Record<Facet, FacetCounts>> = {};
+      const errors: Partial<Record<Facet, string>> = {};
+      await mapWithConcurrency(facets, SCHEMA_FETCH_CONCURRENCY, async facet => {
+        try {
+          const response = await backend.client.post('/api/sql/execute/', { sql: queries[facet] }, { idempotent: true });
+          const extracted = this.extractRows(response.data);
+          if (!extracted) throw new Error("No rows in response");
+          counts[facet] = facetCounts(extracted.table);
+        } catch (error) {
+          errors[facet] = this.describeError(error, `${facet} facet query failed`).error;
+        }
+      });
+
+      return {
+        ...payload,
+        facets: {
+          counted: tool === "search_datasets" ? "datasets" : "assets",
+          ...Object.fromEntries(facets.filter(facet => counts[facet]).map(facet => [facet, counts[facet]])),
+          ...(Object.keys(errors).length > 0 && { errors }),
+          ...(ageFilter && !ages && { note: "Participant ages could not be loaded; facet counts ignore the age filter" }),
+        },
+      };
+    };
+  }
+
+  /**
+   * Why a search must run as generated SQL: its filters are beyond the REST
+   * endpoint, or the backend is a snapshot, which has no search endpoints
+   */
+  private sqlSearchReasons(backend: Backend, tool: SearchTool, criteria: FilterCriterion[]): string[] {
+    const reasons = sqlFallbackReasons(tool, criteria);
+    return backend.snapshot ? ["the backend is an offline snapshot", ...reasons] : reasons;
+  }
+
+  /**
+   * Run a search as generated SQL when the REST endpoint cannot express its
+   * filters. Returns the same payload shape as the REST path plus the SQL.
+   * An age filter is resolved to raw age values and applied in the query, so
+   * total, results and facets all count the same match set.
+   */
+  private async sqlSearch(
+    backend: Backend,
+    tool: SearchTool,
+    criteria: FilterCriterion[],
+    reasons: string[],
+    params: DandiSearchParams,
+    reportProgress: ProgressReporter | undefined,
+    refine?: Refinement,
+    ageFilter?: AgeFilter
+  ) {
+    const limit = params.fetch_all ? params.max_rows ?? FETCH_ALL_MAX_ROWS : params.limit ?? 20;
+    const offset = params.fetch_all ? 0 : params.offset ?? 0;
+    const ages = ageFilter ? await this.resolveAgeValues(backend, ageFilter) : undefined;
+    const { sql, countSql } = buildSearchSql(tool, criteria, {
+      name: params.name,
+      description: params.description,
+      dandiset_id: params.dandiset_id,
+      age_values: ages?.values,
+      limit,
+      offset,
+    });
+
+    const rows = this.extractRows((await backend.client.post('/api/sql/execute/', { sql }, { idempotent: true })).data)?.table.rows;
+    if (!rows) throw new Error("No rows in SQL search response");
+    const counted = this.extractRows((await backend.client.post('/api/sql/execute/', { sql: countSql }, { idempotent: true })).data)?.table.rows;
+    const total = Number(counted?.[0]?.total ?? rows.length);
+    const noun = tool === "search_datasets" ? "datasets" : "assets";
+    if (params.fetch_all) await reportProgress?.(rows.length, total);
+
+    const truncated = params.fetch_all && rows.length < total;
+    const payload = {
+      success: true,
+      results: rows,
+      total,
+      ...(params.fetch_all && { returned: rows.length, truncated, stop_reason: truncated ? "max_rows" : "complete" }),
+      message: truncated
+        ? `Fetched ${rows.length} of ${total} ${noun} (stopped: max_rows)`
+        : params.fetch_all ? `Fetched all ${rows.length} ${noun}` : `Found ${total} ${noun}`,
+      ...(ages && { age_filter: ages.report }),
+      search_engine: {
+        engine: "sql",
+        reasons,
+        filters: describeCriteria(criteria),
+        sql,
+      },
+    };
+
+    return {
+      content: await this.storeAndFormatRows(tool, params, refine ? await refine(payload) : payload, params.output_format)
+    };
+  }
+
+  /**
+   * Query string for the dataset search endpoint
+   */
+  private datasetSearchParams(params: DandiSearchParams): URLSearchParams {
+    const searchParams = new URLSearchParams();
+    if (params.name) searchParams.append('name', params.name);
+    if (params.description) searchParams.append('description', params.description);
+    if (params.species) params.species.forEach(s => searchParams.append('species', s));
+    if (params.approach) params.approach.forEach(a => searchParams.append('approach', a));
+    if (params.measurement_technique) params.measurement_technique.forEach(m => searchParams.append('measurement_technique', m));
+    if (params.anatomy) params.anatomy.forEach(a => searchParams.append('anatomy', a));
+    return searchParams;
+  }
+
+  /**
+   * Query string for the asset search endpoint (age filtering is applied separately)
+   */
+  private assetSearchParams(params: DandiSearchParams): URLSearchParams {
+    const searchParams = new URLSearchParams();
+    if (params.dandiset_id) searchParams.append('dandiset_id', params.dandiset_id.toString());
+    if (params.session_type) params.session_type.forEach(s => searchParams.append('session_type', s));
+    if (params.variable_measured) params.variable_measured.forEach(v => searchParams.append('variable_measured', v));
+    if (params.species) params.species.forEach(s => searchParams.append('species', s));
+    return searchParams;
+  }
+
+  /**
+   * Page fetcher for fetchAllPages over one search endpoint
+   */
+  private searchPageFetcher(backend: Backend, path: string, searchParams: URLSearchParams) {
+    return async (offset: number, limit: number) => {
+      const pageParams = new URLSearchParams(searchParams);
+      pageParams.set('limit', limit.toString());
+      pageParams.set('offset', offset.toString());
+      const response = await backend.client.get(`${path}?${pageParams.toString()}`);
+      return response.data as SearchPage<unknown>;
+    };
+  }
+
+  /**
+   * Walk every page of a search endpoint and return the merged results,
+   * reporting MCP progress notifications as pages arrive
+   */
+  private async fetchAllResults(
+    backend: Backend,
+    tool: string,
+    path: string,
+    searchParams: URLSearchParams,
+    params: DandiSearchParams,
+    reportProgress: ProgressReporter | undefined,
+    noun: string,
+    refine?: Refinement
+  ) {
+    const merged = await fetchAllPages(
+      this.searchPageFetcher(backend, path, searchParams),
+      {
+        maxRows: params.max_rows,
+        maxPages: params.max_pages,
+        onPage: async (fetched, total) => {
+          await reportProgress?.(fetched, total);
+        },
+      }
+    );
+
+    const payload = {
+      success: true,
+      results: merged.results,
+      total: merged.total,
+      returned: merged.results.length,
+      pages_fetched: merged.pages,
+      duplicates_removed: merged.duplicates_removed,
+      truncated: merged.truncated,
+      stop_reason: merged.stop_reason,
+      message: merged.truncated
+        ? `Fetched ${merged.results.length} of ${merged.total} ${noun} (stopped: ${merged.stop_reason})`
+        : `Fetched all ${merged.results.length} ${noun}`
+    };
+
+    return {
+      content: await this.storeAndFormatRows(tool, params, refine ? await refine(payload) : payload, params.output_format)
+    };
+  }
+
+  /**
+   * Distinct participant age values on a backend with their participant
+   * counts (cached with the other backend responses)
+   */
+  private async fetchParticipantAges(backend: Backend): Promise<Record<string, unknown>[]> {
+    return backend.cache.get("participant-ages", async () => {
+      const response = await backend.client.post('/api/sql/execute/', {
+        sql: "SELECT p.age::text AS age, COUNT(*) AS participants FROM dandisets_participant p GROUP BY p.age::text LIMIT 100000"
+      }, { idempotent: true });
+      const extracted = this.extractRows(response.data);
+      if (!extracted) throw new Error("No rows in participant age response");
+      return extracted.table.rows;
+    });
+  }
+
+  /**
+   * Whether participant ages can be loaded, so an age filter can run as
+   * generated SQL instead of filtering fetched pages
+   */
+  private async ageValuesAvailable(backend: Backend): Promise<boolean> {
+    try {
+      await this.fetchParticipantAges(backend);
+      return true;
+    } catch (error) {
+      console.warn('Participant ages unavailable; filtering fetched assets by age instead:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Raw age values matching a filter, for the query builder's IN list,
+   * plus a report of the values that could not be parsed
+   */
+  private async resolveAgeValues(backend: Backend, filter: AgeFilter) {
+    const values: string[] = [];
+    const unparsed: { age: unknown; participants: unknown }[] = [];
+    let matchedParticipants = 0;
+
+    for (const row of await this.fetchParticipantAges(backend)) {
+      if (row.age === null || row.age === undefined) continue;
+      const parsed = parseAge(row.age);
+      if (!parsed) {
+        unparsed.push({ age: row.age, participants: row.participants });
+      } else if (ageMatches(parsed, filter)) {
+        values.push(String(row.age));
+        matchedParticipants += Number(row.participants) || 0;
+      }
+    }
+
+    return {
+      values,
+      report: {
+        filter: describeAgeFilter(filter),
+        matching_age_values: values.length,
+        matching_participants: matchedParticipants,
+        unparsed_age_values: unparsed.length,
+        unparsed_participants: unparsed.reduce((sum, u) => sum + (Number(u.participants) || 0), 0),
+        unparsed: unparsed.slice(0, MAX_UNPARSED_AGES_REPORTED),
+        note: "Participants whose age could not be parsed (or is missing) are excluded"
+      }
+    };
+  }
+
+  /**
+   * Keep the assets of a search payload whose attributed participants have
+   * an age within the filter, reporting assets whose ages could not be parsed.
+   * Only used when the participant ages cannot be loaded for generated SQL.
+   */
+  private async filterAssetsByAge(backend: Backend, payload: Record<string, unknown>, filter: AgeFilter) {
+    const assets: any[] = Array.isArray(payload.results) ? payload.results : [];
+    const ids = [...new Set(assets.map(asset => asset?.id).filter(Number.isInteger))] as number[];
+
+    const agesByAsset = new Map<number, { participant: unknown; age: unknown }[]>();
+    for (let start = 0; start < ids.length; start += 500) {
+      const chunk = ids.slice(start, start + 500);
+      const response = await backend.client.post('/api/sql/execute/', {
+        sql: `SELECT awo.asset_id, p.identifier AS participant, p.age::text AS age
+FROM dandisets_assetwasattributedto awo
+JOIN dandisets_participant p ON p.id = awo.participant_id
+WHERE awo.asset_id IN (${chunk.join(", ")})
+LIMIT ${chunk.length * 20}`
+      }, { idempotent: true });
+      for (const row of this.extractRows(response.data)?.table.rows ?? []) {
+        const id = Number(row.asset_id);
+        if (!agesByAsset.has(id)) agesByAsset.set(id, []);
+        agesByAsset.get(id)!.push({ participant: row.participant, age: row.age });
+      }
+    }
+
+    const kept: any[] = [];
+    const unparsed: { asset_id: unknown; participant: unknown; age: unknown }[] = [];
+    let missing = 0;
+    for (const asset of assets) {
+      const participants = agesByAsset.get(asset?.id) ?? [];
+      if (participants.length === 0 || participants.every(p => p.age === null || p.age === undefined)) {
+        missing++;
+        continue;
+      }
+      let matched = false;
+      for (const participant of participants) {
+        const parsed = parseAge(participant.age);
+        if (!parsed) {
+          if (participant.age !== null && participant.age !== undefined) {
+            unparsed.push({ asset_id: asset.id, ...participant });
+          }
+        } else if (ageMatches(parsed, filter)) {
+          matched = true;
+        }
+      }
+      if (matched) kept.push(asset);
+    }
+
+    return {
+      ...payload,
+      results: kept,
+      age_filter: {
+        filter: describeAgeFilter(filter),
+        kept: kept.length,
+        excluded: assets.length - kept.length,
+        assets_without_age: missing,
+        unparsed_count: unparsed.length,
+        unparsed: unparsed.slice(0, MAX_UNPARSED_AGES_REPORTED),
+        note: "Age filtering is applied to the fetched assets; total is the backend count before filtering. Use fetch_all to filter every page."
+      }
+    };
+  }
+
+  private async handleExecuteSql(backend: Backend, params: SqlQueryParams) {
+    try {
+      const analysis = analyzeSql(params.sql, { allowedTables: await this.fetchAllowedTables(backend) });
+      if (!analysis.valid) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: false,
+              error: `SQL rejected by local safety analysis (${analysis.summary.errors} error(s))`,
+              diagnostics: analysis.diagnostics
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      const maxCost = params.max_cost ?? MAX_QUERY_COST;
+      let costCheck: Record<string, unknown> | undefined;
+      if (maxCost > 0) {
+        try {
+          const explained = await this.explainQuery(backend, params.sql, false, params.timeout_ms);
+          if (explained.total_cost > maxCost) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  success: false,
+                  error: `Query refused: estimated cost ${explained.total_cost} exceeds max_cost ${maxCost}`,
+                  estimated_rows: explained.estimated_rows,
+                  plan_warnings: explained.warnings,
+                  suggestion: "Narrow the query (filters on indexed columns, a LIMIT), check it with explain_sql, or pass a higher max_cost"
+                }, null, 2)
+              }],
+              isError: true
+            };
+          }
+          costCheck = { estimated_cost: explained.total_cost, max_cost: maxCost };
+        } catch (error) {
+          // A threshold that cannot be checked refuses the query rather than running it unchecked
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                error: `Query refused: cost could not be estimated (${this.describeError(error, "EXPLAIN failed").error})`,
+                max_cost: maxCost,
+                suggestion: "Check the query with explain_sql, or pass max_cost: 0 to run it without the cost check"
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+
+      const response = await backend.client.post('/api/sql/execute/', {
+        sql: params.sql
+      }, {
+        idempotent: true,
+        timeout: params.timeout_ms,
+        // A retry would restart the clock, so timeout_ms bounds the whole call
+        ...(params.timeout_ms && { maxRetries: 0 }),
+      });
+
+      const warnings = analysis.diagnostics.filter(d => d.severity === "warning");
+      const data = (warnings.length > 0 || costCheck) && response.data && typeof response.data === "object"
+        ? { ...response.data, ...(warnings.length > 0 && { local_warnings: warnings }), ...(costCheck && { cost_check: costCheck }) }
+        : response.data;
+      
+      return {
+        content: await this.storeAndFormatRows("execute_sql", params, data, params.output_format)
+      };
+    } catch (error) {
+      return this.handleError(error, "SQL execution failed");
+    }
+  }
+
+  /**
+   * EXPLAIN a query through the execute endpoint and parse the plan
+   */
+  private async explainQuery(backend: Backend, sql: string, analyze: boolean, timeoutMs?: number): Promise<ExplainResult> {
+    const response = await backend.client.post('/api/sql/execute/', {
+      sql: explainStatement(sql, analyze)
+    }, {
+      idempotent: true,
+      timeout: timeoutMs,
+      // EXPLAIN ANALYZE runs the query, and timeoutMs bounds the whole call: neither is retried
+      ...((analyze || timeoutMs) && { maxRetries: 0 }),
+    });
+    const extracted = this.extractRows(response.data);
+    if (!extracted) throw new Error("No rows in EXPLAIN response");
+    const parsed = parsePlan(extracted.table.rows);
+    return { ...parsed, warnings: planWarnings(parsed.plan) };
+  }
+
+  private async handleExplainSql(backend: Backend, params: ExplainSqlParams) {
+    try {
+      const analysis = analyzeSql(params.sql, { allowedTables: await this.fetchAllowedTables(backend) });
+      if (!analysis.valid) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: false,
+              error: `SQL rejected by local safety analysis (${analysis.summary.errors} error(s))`,
+              diagnostics: analysis.diagnostics
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      let explained = await this.explainQuery(backend, params.sql, false, params.timeout_ms);
+      let note: string | undefined;
+      if (params.analyze) {
+        const maxCost = params.max_cost ?? EXPLAIN_ANALYZE_MAX_COST;
+        if (explained.total_cost > maxCost) {
+          note = `ANALYZE skipped: estimated cost ${explained.total_cost} exceeds max_cost ${maxCost}`;
+        } else {
+          explained = await this.explainQuery(backend, params.sql, true, params.timeout_ms);
+        }
+      }
+
+      const { plan, ...summary } = explained;
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            ...summary,
+            ...(note && { note }),
+            local_warnings: analysis.diagnostics.filter(d => d.severity === "warning"),
+            plan
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "EXPLAIN failed");
+    }
+  }
+
+  private async handleValidateSql(backend: Backend, params: SqlQueryParams) {
+    try {
+      const analysis = analyzeSql(params.sql, { allowedTables: await this.fetchAllowedTables(backend) });
+
+      let remote: any;
+      try {
+        const response = await backend.client.post('/api/sql/validate/', {
+          sql: params.sql
+        }, { idempotent: true });
+        remote = response.data;
+      } catch (error) {
+        remote = this.describeError(error, "Backend validation failed");
+      }
+
+      const backendValid = remote?.valid !== false && remote?.success !== false && !remote?.error;
+      
+      return {
+        content: [{
+          type: "text", 
+          text: JSON.stringify({
+            valid: analysis.valid && backendValid,
+            local: analysis,
+            backend: remote
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "SQL validation failed");
+    }
+  }
+
+  /**
+   * Save the rows of a payload to the result store and render a preview.
+   * The response carries the result id and resource URI for the full set.
+   * `fields` projects the rows before they are stored.
+   */
+  private async storeAndFormatRows(tool: string, params: unknown, payload: any, format?: OutputFormat) {
+    const extracted = this.extractRows(payload);
+    if (!extracted) return this.formatRows(payload, format);
+
+    const { fields, max_chars } = (params ?? {}) as ResponseShape;
+    const { rowsKey } = extracted;
+    let { table } = extracted;
+    let rows: unknown[] = payload[rowsKey];
+    if (fields?.length) {
+      table = projectRows(table, fields);
+      rows = table.rows;
+      payload = { ...payload, ...(Array.isArray(payload.columns) && { columns: table.columns }) };
+    }
+
+    const total = typeof payload.total === "number" ? payload.total : undefined;
+    const stored = await this.resultStore.save(tool, params, table, total);
+    return this.renderStoredRows(payload, rowsKey, rows, stored, 0, format, max_chars);
+  }
+
+  /**
+   * Render up to RESULT_PREVIEW_ROWS rows of a stored result from `offset`,
+   * dropping trailing rows (and summarizing them) to stay within the budget.
+   * `rows` are the stored rows as the payload carries them.
+   */
+  private renderStoredRows(
+    payload: any,
+    rowsKey: string,
+    rows: unknown[],
+    stored: StoredResult,
+    offset: number,
+    format?: OutputFormat,
+    maxChars = DEFAULT_MAX_RESPONSE_CHARS
+  ) {
+    const available = Math.min(RESULT_PREVIEW_ROWS, Math.max(0, stored.rows.length - offset));
+    const render = (count: number, budgetCut: boolean) => {
+      const end = offset + count;
+      const more = end < stored.rows.length;
+      return this.formatRows({
+        ...payload,
+        [rowsKey]: rows.slice(offset, end),
+        result_id: stored.id,
+        resource_uri: `dandi://results/${stored.id}`,
+        stored_rows: stored.rows.length,
+        ...(offset > 0 && { offset }),
+        preview_rows: count,
+        ...(more && {
+          cursor: encodeCursor(stored.id, end),
+          note: `Showing rows ${offset + 1}-${end} of ${stored.rows.length}; call continue_result with the cursor or read dandi://results/${stored.id}?page=1 for the rest`
+        }),
+        ...(budgetCut && {
+          truncation: {
+            reason: `Response exceeded max_chars (${maxChars})`,
+            omitted: summarizeRows({ columns: stored.columns, rows: stored.rows.slice(end) })
+          }
+        })
+      }, format);
+    };
+
+    const full = render(available, false);
+    if (contentLength(full) <= maxChars) return full;
+    const count = fitRowCount(available, maxChars, count => render(count, true));
+    return render(count, true);
+  }
+
+  /**
+   * Locate and normalize the rows of a payload
+   */
+  private extractRows(payload: any) {
+    const rowsKey = findRowsKey(payload);
+    if (!rowsKey) return undefined;
+
+    // Column lists come back either as names or as { name, type } objects
+    const columnNames = Array.isArray(payload.columns)
+      ? payload.columns.map((c: any) => typeof c === "string" ? c : c?.name)
+      : [];
+    const columns = columnNames.length > 0 && columnNames.every((c: unknown) => typeof c === "string")
+      ? columnNames as string[]
+      : undefined;
+
+    return { rowsKey, columns, table: toTabular(payload[rowsKey], columns) };
+  }
+
+  /**
+   * Render a row-bearing payload in the requested output format. Non-JSON
+   * formats return the rendered rows first and the remaining fields as JSON.
+   */
+  private formatRows(payload: any, format: OutputFormat = "json") {
+    const extracted = this.extractRows(payload);
+    if (format === "json" || !extracted) {
+      return [{ type: "text", text: JSON.stringify(payload, null, 2) }];
+    }
+
+    const { rowsKey, columns, table } = extracted;
+    const { [rowsKey]: _rows, ...metadata } = payload;
+    if (columns) delete metadata.columns;
+
+    if (format === "compact_json") {
+      return [{ type: "text", text: JSON.stringify({ ...metadata, [rowsKey]: toCompact(table) }) }];
+    }
+
+    return [
+      { type: "text", text: formatTable(table, format) },
+      { type: "text", text: JSON.stringify({ ...metadata, format, rendered_rows: table.rows.length }) }
+    ];
+  }
+
+  /**
+   * Serve one page of a stored result set as a resource
+   */
+  private async readResultResource(uri: string, id: string, query: URLSearchParams) {
+    const page = Math.max(1, parseInt(query.get('page') ?? '1', 10) || 1);
+    const pageSize = Math.min(1000, Math.max(1, parseInt(query.get('page_size') ?? '', 10) || RESULT_PAGE_SIZE));
+    const format = (query.get('format') ?? 'json') as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown format: ${format}`);
+    }
+
+    const result = await this.resultStore.page(id, page, pageSize);
+    if (!result) {
+      throw new McpError(ErrorCode.InvalidRequest, `Unknown or expired result: ${id}`);
+    }
+
+    const { rows, columns, ...metadata } = result;
+    const nextUri = page < result.total_pages
+      ? `dandi://results/${id}?page=${page + 1}&page_size=${pageSize}${format === 'json' ? '' : `&format=${format}`}`
+      : undefined;
+
+    if (format === 'json') {
+      return {
+        contents: [{
+          uri,
+          mimeType: "application/json",
+          text: JSON.stringify({ ...metadata, next_uri: nextUri, columns, rows }, null, 2)
+        }]
+      };
+    }
+
+    const mimeTypes: Record<string, string> = {
+      markdown: "text/markdown",
+      csv: "text/csv",
+      ndjson: "application/x-ndjson",
+      compact_json: "application/json",
+    };
+    return {
+      contents: [{
+        uri,
+        mimeType: mimeTypes[format],
+        text: formatTable({ columns, rows }, format)
+      }, {
+        uri: `${uri}#metadata`,
+        mimeType: "application/json",
+        text: JSON.stringify({ ...metadata, next_uri: nextUri })
+      }]
+    };
+  }
+
+  private async handleBuildQuery(backend: Backend, params: BuildQueryParams) {
+    try {
+      const ageFilter = buildAgeFilter(params.min_age, params.max_age, params.age_reference);
+      let ages: Awaited<ReturnType<DandiQueryServer["resolveAgeValues"]>> | undefined;
+      if (ageFilter) {
+        try {
+          ages = await this.resolveAgeValues(backend, ageFilter);
+        } catch (error) {
+          // The query cannot express the age filter without the raw age values
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                target: params.target,
+                error: `Age filter could not be resolved: ${this.describeError(error, "participant ages could not be loaded").error}`,
+                age_filter: { filter: describeAgeFilter(ageFilter) },
+                suggestion: "Try again later, or leave out min_age/max_age and filter on dandisets_participant.age in the SQL"
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+      const built = buildQuery({ ...params, age_values: ages?.values });
+      const analysis = analyzeSql(built.sql, { allowedTables: await this.fetchAllowedTables(backend) });
+      const summary = {
+        success: analysis.valid,
+        target: params.target,
+        sql: built.sql,
+        columns: built.columns,
+        notes: built.notes,
+        diagnostics: analysis.diagnostics,
+        ...(ages && { age_filter: ages.report })
+      };
+
+      if (!params.execute || !analysis.valid) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(summary, null, 2)
+          }],
+          ...(!analysis.valid && { isError: true })
+        };
+      }
+
+      const executed = await this.handleExecuteSql(backend, {
+        sql: built.sql,
+        output_format: params.output_format,
+        fields: params.fields,
+        max_chars: params.max_chars
+      });
+      return {
+        ...executed,
+        content: [{ type: "text", text: JSON.stringify(summary, null, 2) }, ...executed.content]
+      };
+    } catch (error) {
+      return this.handleError(error, "Query build failed");
+    }
+  }
+
+  /**
+   * Tables the backend accepts queries against, or undefined if the list
+   * cannot be loaded
+   */
+  private async fetchAllowedTables(backend: Backend): Promise<string[] | undefined> {
+    try {
+      return await backend.schemaCache.getAllowedTables();
+    } catch (error) {
+      console.warn('Failed to load allowed tables for SQL analysis:', error);
+      return undefined;
+    }
+  }
+
+  private async handleGetSchema(backend: Backend, params: SchemaQueryParams) {
+    try {
+      const schema = params.table
+        ? await backend.schemaCache.getTable(params.table, params.refresh)
+        : await backend.schemaCache.getOverview(params.refresh);
+      
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(schema, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Schema query failed");
+    }
+  }
+
+  /**
+   * Run the profile queries (bounded concurrency) and assemble the profile
+   */
+  private async handleGetDandiset(backend: Backend, params: DandisetProfileParams) {
+    try {
+      const ref = parseDandisetRef(params.dandiset_id, params.internal_id);
+      const version = params.version ?? DEFAULT_VERSION;
+      const lookup = await backend.client.post('/api/sql/execute/', { sql: buildDandisetLookup(ref, version) }, { idempotent: true });
+      const metadata = this.extractRows(lookup.data)?.table.rows[0];
+      if (!metadata) {
+        return this.handleError(new Error(`${describeDandisetRef(ref, version)} not found`), "Dandiset profile failed");
+      }
+      const rowId = Number(metadata.id);
+      if (!Number.isInteger(rowId)) throw new Error(`Dandiset row has no integer id (got ${JSON.stringify(metadata.id)})`);
+      const queries = buildProfileQueries(rowId, params.largest_files);
+
+      const results: Partial<Record<AssetSection, Tabular>> = {};
+      const errors: Partial<Record<AssetSection, string>> = {};
+      await mapWithConcurrency([...ASSET_SECTIONS], SCHEMA_FETCH_CONCURRENCY, async section => {
+        try {
+          const response = await backend.client.post('/api/sql/execute/', { sql: queries[section] }, { idempotent: true });
+          const extracted = this.extractRows(response.data);
+          if (!extracted) throw new Error("No rows in response");
+          results[section] = extracted.table;
+        } catch (error) {
+          errors[section] = this.describeError(error, `${section} query failed`).error;
+        }
+      });
+
+      const profile = assembleProfile(metadata, results, errors);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, ...profile }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Dandiset profile failed");
+    }
+  }
+
+  /**
+   * Saved queries for resource listings; an unreadable file is logged, not fatal
+   */
+  private async listSavedQueries(): Promise<SavedQuery[]> {
+    try {
+      return await this.savedQueries.list();
+    } catch (error) {
+      console.warn('Failed to load saved queries:', error);
+      return [];
+    }
+  }
+
+  private async handleSaveQuery(backend: Backend, params: SaveQueryParams) {
+    try {
+      const { overwrite, ...input } = params;
+      if (input.kind === "sql" && typeof input.sql === "string") {
+        // Placeholders become NULL so the statement can be checked before any values exist
+        const analysis = analyzeSql(sqlForAnalysis(input.sql), { allowedTables: await this.fetchAllowedTables(backend) });
+        if (!analysis.valid) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: false,
+                error: `SQL rejected by local safety analysis (${analysis.summary.errors} error(s))`,
+                diagnostics: analysis.diagnostics
+              }, null, 2)
+            }],
+            isError: true
+          };
+        }
+      }
+
+      const saved = await this.savedQueries.save(input, overwrite);
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            query: saved,
+            resource_uri: `dandi://saved/${saved.name}`,
+            message: `Saved query '${saved.name}'`
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Saving query failed");
+    }
+  }
+
+  private async handleListSavedQueries() {
+    try {
+      const queries = await this.savedQueries.list();
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            queries: queries.map(query => ({
+              name: query.name,
+              description: query.description,
+              kind: query.kind,
+              parameters: query.parameters,
+              updated_at: query.updated_at,
+              resource_uri: `dandi://saved/${query.name}`
+            })),
+            message: `${queries.length} saved queries`
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Listing saved queries failed");
+    }
+  }
+
+  /**
+   * Bind the parameters and run the query through the matching tool handler,
+   * prefixed with what was run
+   */
+  private async handleRunSavedQuery(backend: Backend, params: RunSavedQueryParams, reportProgress?: ProgressReporter) {
+    try {
+      const query = await this.savedQueries.get(params.name);
+      if (!query) throw new Error(`No saved query named '${params.name}'`);
+      const values = resolveParameters(query, params.parameters);
+
+      let summary: Record<string, unknown>;
+      let executed: Awaited<ReturnType<DandiQueryServer["handleExecuteSql"]>>;
+      if (query.kind === "sql") {
+        const sql = bindSql(query, values);
+        summary = { saved_query: query.name, parameters: values, sql };
+        executed = await this.handleExecuteSql(backend, { sql, output_format: params.output_format, fields: params.fields, max_chars: params.max_chars });
+      } else {
+        const args = this.validateToolArguments(query.kind, {
+          ...bindArguments(query, values),
+          output_format: params.output_format,
+          fields: params.fields,
+          max_chars: params.max_chars
+        }) as DandiSearchParams;
+        summary = { saved_query: query.name, parameters: values, arguments: args };
+        executed = query.kind === "search_datasets"
+          ? await this.handleSearchDatasets(backend, args, reportProgress)
+          : await this.handleSearchAssets(backend, args, reportProgress);
+      }
+
+      return {
+        ...executed,
+        content: [{ type: "text", text: JSON.stringify(summary, null, 2) }, ...executed.content]
+      };
+    } catch (error) {
+      return this.handleError(error, "Running saved query failed");
+    }
+  }
+
+  private async handleDeleteSavedQuery(params: { name: string }) {
+    try {
+      if (!(await this.savedQueries.delete(params.name))) {
+        throw new Error(`No saved query named '${params.name}'`);
+      }
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ success: true, message: `Deleted saved query '${params.name}'` }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Deleting saved query failed");
+    }
+  }
+
+  /**
+   * Watches for resource listings; an unreadable file is logged, not fatal
+   */
+  private async listWatches(): Promise<Watch[]> {
+    try {
+      return await this.watches.list();
+    } catch (error) {
+      console.warn('Failed to load watches:', error);
+      return [];
+    }
+  }
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        case "search_datasets":
-          return await this.handleSearchDatasets(request.params.arguments as DandiSearchParams);
-        
-        case "search_assets":
-          return await this.handleSearchAssets(request.params.arguments as DandiSearchParams);
-        
-        case "execute_sql":
-          return await this.handleExecuteSql(request.params.arguments as unknown as SqlQueryParams);
-        
-        case "validate_sql":
-          return await this.handleValidateSql(request.params.arguments as unknown as SqlQueryParams);
-        
-        case "get_schema":
-          return await this.handleGetSchema(request.params.arguments as SchemaQueryParams);
-        
-        case "get_filter_options":
-          return await this.handleGetFilterOptions();
-
-        case "get_full_schema":
-          return await this.handleGetFullSchema();
-
-        default:
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+  /**
+   * A watch without its snapshot rows
+   */
+  private describeWatch(watch: Watch) {
+    const { snapshot, last_check, ...definition } = watch;
+    return {
+      ...definition,
+      snapshot: { taken_at: snapshot.taken_at, row_count: snapshot.row_count, truncated: snapshot.truncated },
+      last_check: last_check && {
+        checked_at: last_check.checked_at,
+        added: last_check.added,
+        removed: last_check.removed,
+        changed: last_check.changed
+      },
+      resource_uri: `dandi://watches/${watch.name}`
+    };
+  }
+
+  /**
+   * Every row a watch currently matches
+   */
+  private async collectWatchRows(backend: Backend, watch: Pick<Watch, "kind" | "arguments" | "sql" | "max_rows">) {
+    if (watch.kind === "sql") {
+      const analysis = analyzeSql(watch.sql!, { allowedTables: await this.fetchAllowedTables(backend) });
+      if (!analysis.valid) {
+        const errors = analysis.diagnostics.filter(d => d.severity === "error").map(d => d.message);
+        throw new Error(`SQL rejected by local safety analysis: ${errors.join("; ")}`);
       }
-    });
+      const response = await backend.client.post('/api/sql/execute/', { sql: watch.sql }, { idempotent: true });
+      const extracted = this.extractRows(response.data);
+      if (!extracted) throw new Error("No rows in SQL response");
+      return { rows: extracted.table.rows, truncated: false };
+    }
+
+    const searchArguments = (watch.arguments ?? {}) as DandiSearchParams;
+    const { params, groups } = await this.resolveSearchTerms(backend, searchArguments);
+    const criteria = this.filterCriteria(params, groups);
+
+    const ageFilter = watch.kind === "search_assets"
+      ? buildAgeFilter(params.min_age, params.max_age, params.age_reference)
+      : undefined;
+    const ages = ageFilter && await this.ageValuesAvailable(backend)
+      ? await this.resolveAgeValues(backend, ageFilter)
+      : undefined;
+
+    let rows: Record<string, unknown>[];
+    let truncated: boolean;
+    if (ages || this.sqlSearchReasons(backend, watch.kind, criteria).length > 0) {
+      const maxRows = watch.max_rows ?? FETCH_ALL_MAX_ROWS;
+      const { sql } = buildSearchSql(watch.kind, criteria, {
+        ...params,
+        age_values: ages?.values,
+        limit: maxRows + 1,
+        offset: 0,
+      });
+      const response = await backend.client.post('/api/sql/execute/', { sql }, { idempotent: true });
+      const extracted = this.extractRows(response.data);
+      if (!extracted) throw new Error("No rows in SQL search response");
+      rows = extracted.table.rows.slice(0, maxRows);
+      truncated = extracted.table.rows.length > maxRows;
+    } else {
+      const fetchPage = watch.kind === "search_datasets"
+        ? this.searchPageFetcher(backend, '/api/search/', this.datasetSearchParams(params))
+        : this.searchPageFetcher(backend, '/api/assets/search/', this.assetSearchParams(params));
+      const merged = await fetchAllPages(fetchPage, { maxRows: watch.max_rows });
+      rows = merged.results as Record<string, unknown>[];
+      truncated = merged.truncated;
+    }
+
+    if (ageFilter && !ages) rows = (await this.filterAssetsByAge(backend, { results: rows }, ageFilter)).results;
+    return { rows, truncated };
   }
 
   /**
-   * Tool handler implementations
+   * Notify clients subscribed to a resource that it changed
    */
-  private async handleSearchDatasets(params: DandiSearchParams) {
+  private async notifyResourceUpdated(uri: string) {
+    await Promise.all([...this.servers]
+      .filter(server => this.subscriptions.get(server)?.has(uri))
+      .map(server => server.sendResourceUpdated({ uri }).catch(error => {
+        console.warn(`Failed to send resource update for ${uri}:`, error);
+      })));
+  }
+
+  private async handleCreateWatch(backend: Backend, params: CreateWatchParams) {
     try {
-      const searchParams = new URLSearchParams();
-      
-      if (params.name) searchParams.append('name', params.name);
-      if (params.description) searchParams.append('description', params.description);
-      if (params.species) params.species.forEach(s => searchParams.append('species', s));
-      if (params.approach) params.approach.forEach(a => searchParams.append('approach', a));
-      if (params.measurement_technique) params.measurement_technique.forEach(m => searchParams.append('measurement_technique', m));
-      if (params.anatomy) params.anatomy.forEach(a => searchParams.append('anatomy', a));
-      if (params.limit) searchParams.append('limit', params.limit.toString());
-      if (params.offset) searchParams.append('offset', params.offset.toString());
+      const { overwrite, ...input } = params;
+      const definition = {
+        ...input,
+        ...(input.kind !== "sql" && {
+          arguments: matchingArguments(this.validateToolArguments(input.kind, input.arguments))
+        })
+      };
+      validateWatch(definition);
+      if (!overwrite && await this.watches.has(definition.name)) {
+        throw new Error(`A watch named '${definition.name}' already exists (pass overwrite: true to replace it)`);
+      }
+
+      const key = definition.key ?? ["id"];
+      const { rows, truncated } = await this.collectWatchRows(backend, definition);
+      const watch: Watch = {
+        name: definition.name,
+        description: definition.description,
+        kind: definition.kind,
+        ...(definition.kind === "sql" ? { sql: definition.sql } : { arguments: definition.arguments }),
+        key,
+        backend: backend.name,
+        max_rows: definition.max_rows,
+        created_at: new Date().toISOString(),
+        snapshot: takeSnapshot(rows, key, truncated)
+      };
+      await this.watches.put(watch);
 
-      const response = await this.axiosInstance.get(`/api/search/?${searchParams.toString()}`);
-      
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            results: response.data.results,
-            total: response.data.count,
-            message: `Found ${response.data.count} datasets`
+            watch: this.describeWatch(watch),
+            message: `Watching ${watch.snapshot.row_count} rows; run check_watches to see what changed`,
+            ...(truncated && {
+              warning: `Only the first ${watch.snapshot.row_count} rows are tracked; narrow the search so every match fits in max_rows`
+            })
           }, null, 2)
         }]
       };
     } catch (error) {
-      return this.handleError(error, "Dataset search failed");
+      return this.handleError(error, "Creating watch failed");
     }
   }
 
-  private async handleSearchAssets(params: DandiSearchParams) {
+  private async handleListWatches() {
     try {
-      const searchParams = new URLSearchParams();
-      
-      if (params.dandiset_id) searchParams.append('dandiset_id', params.dandiset_id.toString());
-      if (params.session_type) params.session_type.forEach(s => searchParams.append('session_type', s));
-      if (params.variable_measured) params.variable_measured.forEach(v => searchParams.append('variable_measured', v));
-      if (params.species) params.species.forEach(s => searchParams.append('species', s));
-      if (params.limit) searchParams.append('limit', params.limit.toString());
-      if (params.offset) searchParams.append('offset', params.offset.toString());
-
-      const response = await this.axiosInstance.get(`/api/assets/search/?${searchParams.toString()}`);
-      
+      const watches = await this.watches.list();
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            results: response.data.results,
-            total: response.data.count,
-            message: `Found ${response.data.count} assets`
+            watches: watches.map(watch => this.describeWatch(watch)),
+            message: `${watches.length} watches`
           }, null, 2)
         }]
       };
     } catch (error) {
-      return this.handleError(error, "Asset search failed");
+      return this.handleError(error, "Listing watches failed");
     }
   }
 
-  private async handleExecuteSql(params: SqlQueryParams) {
+  /**
+   * Re-run each watch against its backend and diff it with its snapshot.
+   * One failing watch is reported without stopping the others.
+   */
+  private async handleCheckWatches(params: CheckWatchesParams, reportProgress?: ProgressReporter) {
     try {
-      const response = await this.axiosInstance.post('/api/sql/execute/', {
-        sql: params.sql
-      });
-      
+      const maxChanges = Math.max(0, params.max_changes ?? WATCH_MAX_CHANGES);
+      const watches: (Watch | string)[] = params.names
+        ? await Promise.all(params.names.map(async name => (await this.watches.get(name)) ?? name))
+        : await this.watches.list();
+
+      const checks = [];
+      for (const [index, watch] of watches.entries()) {
+        if (typeof watch === "string") {
+          checks.push({ name: watch, success: false, error: `No watch named '${watch}'` });
+          continue;
+        }
+        try {
+          const { rows, truncated } = await this.collectWatchRows(this.backends.get(watch.backend), watch);
+          const snapshot = takeSnapshot(rows, watch.key, truncated);
+          const diff = diffSnapshots(watch.snapshot, snapshot);
+          const check = summarizeCheck(diff, maxChanges);
+          const changed = hasChanges(diff);
+
+          if (params.update !== false) {
+            await this.watches.put({ ...watch, snapshot, last_check: check });
+            if (changed) await this.notifyResourceUpdated(`dandi://watches/${watch.name}`);
+          }
+
+          checks.push({
+            name: watch.name,
+            success: true,
+            backend: watch.backend,
+            since: watch.snapshot.taken_at,
+            row_count: snapshot.row_count,
+            has_changes: changed,
+            ...check,
+            ...((truncated || watch.snapshot.truncated) && {
+              warning: "The search hit max_rows, so rows past the cut-off may show up as added or removed"
+            })
+          });
+        } catch (error) {
+          checks.push({ name: watch.name, ...this.describeError(error, "Check failed") });
+        }
+        await reportProgress?.(index + 1, watches.length);
+      }
+
+      const withChanges = checks.filter(check => "has_changes" in check && check.has_changes).length;
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(response.data, null, 2)
+          text: JSON.stringify({
+            success: checks.every(check => check.success),
+            updated: params.update !== false,
+            watches: checks,
+            message: `Checked ${checks.length} watches; ${withChanges} with changes`
+          }, null, 2)
         }]
       };
     } catch (error) {
-      return this.handleError(error, "SQL execution failed");
+      return this.handleError(error, "Checking watches failed");
     }
   }
 
-  private async handleValidateSql(params: SqlQueryParams) {
+  private async handleDeleteWatch(params: { name: string }) {
     try {
-      const response = await this.axiosInstance.post('/api/sql/validate/', {
-        sql: params.sql
-      });
-      
+      if (!(await this.watches.delete(params.name))) {
+        throw new Error(`No watch named '${params.name}'`);
+      }
       return {
         content: [{
-          type: "text", 
-          text: JSON.stringify(response.data, null, 2)
+          type: "text",
+          text: JSON.stringify({ success: true, message: `Deleted watch '${params.name}'` }, null, 2)
         }]
       };
     } catch (error) {
-      return this.handleError(error, "SQL validation failed");
+      return this.handleError(error, "Deleting watch failed");
     }
   }
 
-  private async handleGetSchema(params: SchemaQueryParams) {
+  private async handleListBackends() {
     try {
-      const url = params.table ? `/api/sql/schema/?table=${params.table}` : '/api/sql/schema/';
-      const response = await this.axiosInstance.get(url);
-      
+      const backends = await this.backends.checkHealth();
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(response.data, null, 2)
+          text: JSON.stringify({
+            success: true,
+            default: this.backends.defaultName,
+            backends,
+            message: `${backends.filter(b => b.status === "ok").length} of ${backends.length} backends reachable`
+          }, null, 2)
         }]
       };
     } catch (error) {
-      return this.handleError(error, "Schema query failed");
+      return this.handleError(error, "Backend health check failed");
     }
   }
 
-  private async handleGetFilterOptions() {
+  private async handleResolveTerms(backend: Backend, params: ResolveTermsParams) {
     try {
-      const response = await this.axiosInstance.get('/api/filter-options/');
-      
+      const terms = params.terms.filter(term => term.trim());
+      if (terms.length === 0) throw new Error("terms must list at least one term");
+      if (params.filter !== undefined && !RESOLVABLE_FILTERS.includes(params.filter)) {
+        throw new Error(`filter must be one of: ${RESOLVABLE_FILTERS.join(", ")}`);
+      }
+      const limit = Math.min(50, Math.max(1, params.limit ?? 5));
+
+      const vocabularies = buildVocabularies(await this.fetchFilterOptions(backend));
+      const filters = params.filter ? [params.filter] : RESOLVABLE_FILTERS;
+      const results = terms.map(term => ({
+        term,
+        filters: Object.fromEntries(filters.flatMap(filter => {
+          const vocabulary = vocabularies[filter];
+          if (!vocabulary) return [];
+          const { resolved, method, score, truncated } = vocabulary.resolve(term);
+          return [[filter, {
+            resolved: method === "unresolved" ? [] : resolved,
+            method,
+            score,
+            ...(truncated && { truncated }),
+            candidates: vocabulary.candidates(term).slice(0, limit)
+          }]];
+        }))
+      }));
+
       return {
         content: [{
           type: "text",
-          text: JSON.stringify(response.data, null, 2)
+          text: JSON.stringify({
+            success: true,
+            results,
+            missing_filters: filters.filter(filter => !vocabularies[filter])
+          }, null, 2)
         }]
       };
     } catch (error) {
-      return this.handleError(error, "Filter options query failed");
+      return this.handleError(error, "Term resolution failed");
     }
   }
 
-  private async handleGetFullSchema() {
+  private async handleGetFilterOptions(backend: Backend) {
     try {
-      // First, get the list of all tables
-      const tablesResponse = await this.axiosInstance.get('/api/sql/schema/');
+      const filterOptions = await this.fetchFilterOptions(backend);
       
-      if (!tablesResponse.data.allowed_tables) {
-        throw new Error("No table list found in schema response");
-      }
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(filterOptions, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Filter options query failed");
+    }
+  }
 
-      const fullSchema: Record<string, any> = {};
-      
-      // Get schema for each table
-      for (const tableName of tablesResponse.data.allowed_tables) {
-        try {
-          const tableResponse = await this.axiosInstance.get(`/api/sql/schema/?table=${tableName}`);
-          fullSchema[tableName] = tableResponse.data;
-        } catch (tableError) {
-          console.warn(`Failed to get schema for table ${tableName}:`, tableError);
-          fullSchema[tableName] = { error: `Failed to fetch schema for ${tableName}` };
-        }
-      }
+  private async fetchFilterOptions(backend: Backend): Promise<Record<string, any>> {
+    return backend.cache.get("filter-options", async () => (await backend.client.get('/api/filter-options/')).data);
+  }
+
+  private async handleGetFullSchema(backend: Backend, params: SchemaQueryParams) {
+    try {
+      const fullSchema = await backend.schemaCache.getFullSchema(params.refresh);
       
       return {
         content: [{
@@ -536,18 +3190,139 @@ class DandiQueryServer {
     }
   }
 
+  private async handleFindJoinPath(backend: Backend, params: JoinPathParams) {
+    try {
+      const graph = buildJoinGraph(await backend.schemaCache.getFullSchema());
+      const from = resolveTable(graph, params.from_table);
+      const to = resolveTable(graph, params.to_table);
+      if (!from || !to) {
+        throw new Error(
+          `Unknown table '${!from ? params.from_table : params.to_table}'. Available tables: ${graph.tables.join(", ")}`
+        );
+      }
+
+      const path = findJoinPath(graph, from, to);
+      if (!path) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: false,
+              error: `No join path between ${from} and ${to} in the schema's foreign keys`,
+              edges_known: graph.edges.length
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            path: path.tables,
+            joins: path.joins.map(join => ({
+              table: join.table,
+              alias: join.alias,
+              on: join.on,
+              foreign_key: `${join.edge.from_table}.${join.edge.from_column} -> ${join.edge.to_table}.${join.edge.to_column}`,
+              source: join.edge.source
+            })),
+            sql: path.sql,
+            message: `${path.joins.length} join(s) from ${from} to ${to}`
+          }, null, 2)
+        }]
+      };
+    } catch (error) {
+      return this.handleError(error, "Join path search failed");
+    }
+  }
+
+  /**
+   * Apply a local operation to a stored result set and store the output as a
+   * new result set, so operations can be chained
+   */
+  private async handleResultOperation(
+    tool: string,
+    params: ResultOperationParams,
+    operation: (table: Tabular) => Tabular
+  ) {
+    try {
+      const source = await this.loadResult(params.result_id);
+      const output = operation(source);
+
+      return {
+        content: await this.storeAndFormatRows(tool, params, {
+          success: true,
+          source_result_id: source.id,
+          columns: output.columns,
+          results: output.rows,
+          message: `${output.rows.length} of ${source.rows.length} rows`
+        }, params.output_format)
+      };
+    } catch (error) {
+      return this.handleError(error, "Result operation failed");
+    }
+  }
+
+  private async handleJoinResults(params: JoinResultsParams) {
+    try {
+      const left = await this.loadResult(params.left_result_id);
+      const right = await this.loadResult(params.right_result_id);
+      const output = joinRows(left, right, params);
+
+      return {
+        content: await this.storeAndFormatRows("join_results", params, {
+          success: true,
+          source_result_ids: [left.id, right.id],
+          columns: output.columns,
+          results: output.rows,
+          message: `Joined ${left.rows.length} x ${right.rows.length} rows into ${output.rows.length} rows`
+        }, params.output_format)
+      };
+    } catch (error) {
+      return this.handleError(error, "Result join failed");
+    }
+  }
+
+  private async handleContinueResult(params: ContinueResultParams) {
+    try {
+      const { resultId, offset } = decodeCursor(params.cursor);
+      const stored = await this.loadResult(resultId);
+      if (offset >= stored.rows.length) {
+        throw new Error(`Cursor is past the end of result set '${resultId}' (${stored.rows.length} rows)`);
+      }
+      const payload = {
+        success: true,
+        source_tool: stored.tool,
+        columns: stored.columns,
+        results: stored.rows,
+        ...(stored.total !== undefined && { total: stored.total })
+      };
+      return {
+        content: this.renderStoredRows(payload, "results", stored.rows, stored, offset, params.output_format, params.max_chars)
+      };
+    } catch (error) {
+      return this.handleError(error, "Continuing result failed");
+    }
+  }
+
+  private async loadResult(id: string) {
+    const result = await this.resultStore.get(id);
+    if (!result) {
+      throw new Error(`Unknown or expired result set '${id}'`);
+    }
+    return result;
+  }
+
   /**
    * Error handling helper
    */
   private handleError(error: any, message: string) {
     console.error(`[DANDI Query Error] ${message}:`, error);
     
-    let errorMessage = message;
-    if (axios.isAxiosError(error)) {
-      errorMessage += `: ${error.response?.data?.message || error.response?.data?.error || error.message}`;
-    } else {
-      errorMessage += `: ${error.message || 'Unknown error'}`;
-    }
+    const errorMessage = this.describeError(error, message).error;
 
     return {
       content: [{
@@ -561,6 +3336,77 @@ class DandiQueryServer {
     };
   }
 
+  /**
+   * Build the `{ success: false, error }` payload for a failed request
+   */
+  private describeError(error: any, message: string) {
+    let errorMessage = message;
+    if (axios.isAxiosError(error)) {
+      errorMessage += `: ${error.response?.data?.message || error.response?.data?.error || error.message}`;
+    } else {
+      errorMessage += `: ${error.message || 'Unknown error'}`;
+    }
+    return { success: false, error: errorMessage };
+  }
+
+  /**
+   * Live documentation builders, falling back to the static guides below
+   * when the backend cannot be reached
+   */
+  private async buildBasicSearchGuide(backend: Backend): Promise<string> {
+    try {
+      return `${this.getBasicSearchGuide()}\n${renderFilterValues(await this.fetchFilterOptions(backend))}`;
+    } catch (error) {
+      console.warn('Failed to build live basic search guide:', error);
+      return this.withStaticNotice(this.getBasicSearchGuide());
+    }
+  }
+
+  private async buildSqlQueryGuide(backend: Backend): Promise<string> {
+    try {
+      return this.getSqlQueryGuide(renderTableSection(await backend.schemaCache.getFullSchema()));
+    } catch (error) {
+      console.warn('Failed to build live SQL query guide:', error);
+      return this.withStaticNotice(this.getSqlQueryGuide());
+    }
+  }
+
+  private async buildSchemaGuide(backend: Backend): Promise<string> {
+    try {
+      const schema = await backend.schemaCache.getFullSchema();
+      const tables = Object.keys(schema).filter(table => !schema[table]?.error);
+      const samples = await mapWithConcurrency(tables, SCHEMA_FETCH_CONCURRENCY, table => this.fetchSampleRows(backend, table));
+      return renderSchemaReference(
+        schema,
+        Object.fromEntries(tables.map((table, index) => [table, samples[index]])),
+        new Date()
+      );
+    } catch (error) {
+      console.warn('Failed to build live schema guide:', error);
+      return this.withStaticNotice(this.getSchemaGuide());
+    }
+  }
+
+  /**
+   * A few rows of a table, used for example values in the schema reference
+   */
+  private async fetchSampleRows(backend: Backend, table: string): Promise<Record<string, unknown>[]> {
+    try {
+      return await backend.cache.get(`samples:${table}`, async () => {
+        const response = await backend.client.post('/api/sql/execute/', {
+          sql: `SELECT * FROM "${table.replace(/"/g, '""')}" LIMIT 3`
+        }, { idempotent: true });
+        return this.extractRows(response.data)?.table.rows ?? [];
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  private withStaticNotice(guide: string): string {
+    return `> **Note:** The backend could not be reached, so this is a static reference that may be out of date.\n\n${guide}`;
+  }
+
   /**
    * Documentation content generators
    */
@@ -589,8 +3435,16 @@ Use the \`search_datasets\` tool to find datasets matching specific criteria:
 - **approach**: Filter by experimental approach (array)
 - **measurement_technique**: Filter by measurement techniques (array)
 - **anatomy**: Filter by anatomical regions (array)
+- **disorder**, **sex**, **session_type**, **variable_measured**: Also accepted (arrays)
+- **filter_modes**: How each filter combines its values (see below)
+- **facets** / **facet_limit**: Value counts over the whole match set (see below)
+- **fields**: Columns to return (dotted names reach nested metadata)
+- **max_chars**: Response budget; over it, rows are cut with a summary and a \`cursor\` for \`continue_result\`
 - **limit**: Maximum results (1-100, default 20)
 - **offset**: Skip results for pagination
+- **fetch_all**: Walk every page and return one merged result list
+- **output_format**: \`json\` (default), \`markdown\`, \`csv\`, \`ndjson\` or \`compact_json\`
+- **max_rows** / **max_pages**: Ceilings for \`fetch_all\` (at most ${FETCH_ALL_MAX_ROWS} rows / ${FETCH_ALL_MAX_PAGES} pages)
 
 ## Searching Assets
 
@@ -609,6 +3463,50 @@ Use the \`search_assets\` tool to find specific files/sessions:
 - **session_type**: Filter by session type (array)
 - **variable_measured**: Filter by measured variables (array)
 
+Every filter listed by \`get_filter_options\` works on both tools.
+
+## Filter Modes
+
+\`filter_modes\` sets how each filter combines its values:
+- **any** (default): match at least one value
+- **all**: match every value
+- **none**: exclude anything matching a value
+
+\`\`\`
+{
+  "anatomy": ["CA1", "Dentate gyrus"],
+  "disorder": ["epilepsy"],
+  "filter_modes": { "anatomy": "all", "disorder": "none" }
+}
+\`\`\`
+
+The search endpoints only support \`any\` over some filters. Other searches run
+as generated SQL; the response then has a \`search_engine\` field with the
+reasons and the query.
+
+## Facet Counts
+
+Set \`facets\` to \`true\` (or a list such as \`["species", "anatomy"]\`) to also get
+value counts over the whole match set, not just the returned page: species,
+approach, anatomy, measurement_technique, variable_measured and session_type.
+Datasets are counted for \`search_datasets\`, assets for \`search_assets\`;
+\`facet_limit\` sets how many values are listed per facet (default ${DEFAULT_FACET_LIMIT}).
+Use the most common values to suggest refinements.
+
+## Fetching Every Page
+
+Set \`fetch_all\` to walk \`offset\` until the backend's total count is reached.
+Rows are merged and de-duplicated by id, and \`truncated\`/\`stop_reason\` report
+whether a ceiling was hit before the end:
+
+\`\`\`
+{
+  "dandiset_id": 124,
+  "variable_measured": ["ElectricalSeries"],
+  "fetch_all": true
+}
+\`\`\`
+
 ## Getting Filter Options
 
 Use \`get_filter_options\` to see all available filter values:
@@ -621,7 +3519,7 @@ This returns lists of valid species, approaches, anatomical regions, etc.
 `;
   }
 
-  private getSqlQueryGuide(): string {
+  private getSqlQueryGuide(tablesSection = STATIC_TABLES_SECTION): string {
     return `# SQL Query Guide
 
 The SQL query functionality provides maximum flexibility for complex data analysis.
@@ -629,25 +3527,15 @@ The SQL query functionality provides maximum flexibility for complex data analys
 ## Security Features
 
 - Only SELECT statements allowed
+- Queries are checked locally before they are sent: non-SELECT statements,
+  multiple statements, unknown tables and queries over ${MAX_SQL_LENGTH} characters
+  are rejected; missing LIMITs and cartesian joins produce warnings
 - Access limited to DANDI tables only
 - Query complexity limits enforced
 - Automatic result limits (max 1000 rows)
 - SQL injection prevention
 
-## Available Tables
-
-### Core Tables:
-- \`dandisets_dandiset\` - Dataset metadata
-- \`dandisets_asset\` - Individual files/sessions
-- \`dandisets_participant\` - Subject information
-- \`dandisets_assetdandiset\` - Asset-dataset relationships
-- \`dandisets_assetwasattributedto\` - Asset-participant relationships
-
-### Reference Tables:
-- \`dandisets_species\` - Species information
-- \`dandisets_anatomy\` - Anatomical regions
-- \`dandisets_approach\` - Experimental approaches
-- \`dandisets_measurementtechnique\` - Measurement methods
+${tablesSection}
 
 ## Query Tools
 
@@ -659,8 +3547,31 @@ Execute SQL queries directly:
 }
 \`\`\`
 
+Add \`"output_format": "markdown"\` (or \`csv\`, \`ndjson\`, \`compact_json\`) to
+get the rows in a cheaper, paste-friendly format. JSONB columns such as
+\`variable_measured\` are rendered as JSON text, NULLs as empty CSV fields and empty
+strings as \`""\`.
+
+Add \`"timeout_ms"\` to wait longer (or shorter) than the default ${API_TIMEOUT} ms (the
+query keeps running on the server after a timeout), and \`"max_cost"\` to refuse the
+query when its EXPLAIN estimate is higher or cannot be obtained.
+
+### explain_sql
+Get the plan of a query without running it: estimated rows and cost per step
+and warnings such as sequential scans of \`dandisets_asset\`. Set
+\`"analyze": true\` to also run it for actual rows and timings (skipped when the
+estimate is above \`max_cost\`):
+\`\`\`
+{
+  "sql": "SELECT COUNT(*) FROM dandisets_asset WHERE path ILIKE '%ecephys%'",
+  "analyze": true,
+  "timeout_ms": 60000
+}
+\`\`\`
+
 ### validate_sql
-Check query validity without execution:
+Check query validity without execution. The response merges the local
+analysis (diagnostics with line and column) with the backend's verdict:
 \`\`\`
 {
   "sql": "SELECT * FROM dandisets_dandiset"
@@ -668,20 +3579,60 @@ Check query validity without execution:
 \`\`\`
 
 ### get_schema
-Get table structure information:
+Get table structure information (cached; pass \`"refresh": true\` to bypass the
+cache). A single table's columns are also readable as the
+\`dandi://schema/{table}\` resource:
 \`\`\`
 {
   "table": "dandisets_dandiset"
 }
 \`\`\`
 
+## Building Queries
+
+\`build_query\` compiles a structured spec into SQL, so the bridge-table joins
+do not have to be written by hand. The multi-subject, multi-session example
+below becomes:
+
+\`\`\`
+{
+  "target": "dandiset",
+  "variable_measured": ["ElectricalSeries"],
+  "min_subjects": 3,
+  "min_sessions_per_subject": 3,
+  "execute": true
+}
+\`\`\`
+
+## Stored Results
+
+Every \`execute_sql\`, \`search_datasets\` and \`search_assets\` call stores its
+rows and returns a \`result_id\` and \`resource_uri\` alongside the first
+${RESULT_PREVIEW_ROWS} rows. Read the full set page by page as a resource:
+
+\`\`\`
+dandi://results/{result_id}?page=2&page_size=100&format=csv
+\`\`\`
+
+## Working With Stored Results
+
+Follow-up questions about rows you already have do not need a new query.
+\`project_result\`, \`filter_result\`, \`sort_result\`, \`group_result\` and
+\`join_results\` run locally on a stored result set and store their output as a
+new result set, so they can be chained:
+
+\`\`\`
+{ "result_id": "3f2a9c1b7e04", "filters": [{ "column": "content_size", "op": "gt", "value": 1000000000 }] }
+{ "result_id": "8d1e0b6a2c57", "by": ["dandiset_id"], "aggregations": [{ "op": "count" }, { "op": "sum", "column": "content_size" }] }
+\`\`\`
+
 ## Best Practices
 
 1. Use LIMIT clauses to avoid large result sets
 2. Filter early with WHERE clauses
 3. Test complex queries with validate_sql first
 4. Use JOINs efficiently
-5. Leverage indexes on id, name, created_at fields
+5. Check slow queries with explain_sql, which warns about sequential scans of large tables
 `;
   }
 
@@ -818,12 +3769,96 @@ Use \`get_schema\` tool with a table name to get detailed column information.
     };
   }
 
-  async run() {
+  async run(options: TransportOptions) {
+    if (options.transport === "sse") {
+      this.httpServer = await serveHttp(() => this.createServer(), options);
+      console.error(
+        `DANDI Query MCP server listening on http://${options.host}:${options.port}/sse` +
+        (options.authToken ? ' (bearer token required)' : '')
+      );
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error('DANDI Query MCP server running on stdio');
   }
+
+  /**
+   * Copy the allowed tables of a backend into a snapshot file for offline use
+   */
+  async exportSnapshot(file: string, backendName?: string, tables?: string[]) {
+    const backend = this.backends.get(backendName);
+    if (backend.snapshot) {
+      throw new Error(`Backend '${backend.name}' is served from snapshot ${backend.snapshot.path}; export from an online backend`);
+    }
+    const summary = await exportSnapshot(backend.client, backend.config.base_url, file, {
+      tables,
+      concurrency: SCHEMA_FETCH_CONCURRENCY,
+      onProgress: (table, rows) => console.error(`${table}: ${rows} rows`),
+    });
+    console.log(JSON.stringify(summary, null, 2));
+  }
+}
+
+const COMMAND_LINE_OPTIONS = {
+  transport: { type: "string" },
+  host: { type: "string" },
+  port: { type: "string" },
+  backend: { type: "string" },
+  tables: { type: "string" },
+} as const;
+
+function cassetteMode(mode: string): CassetteMode {
+  if (!(CASSETTE_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown DANDI_CASSETTE_MODE '${mode}' (expected ${CASSETTE_MODES.join(" or ")})`);
+  }
+  return mode as CassetteMode;
+}
+
+/**
+ * Transport selection from the command line, falling back to environment
+ * variables: --transport (DANDI_TRANSPORT), --host (DANDI_HTTP_HOST),
+ * --port (DANDI_HTTP_PORT); the bearer token is only read from
+ * DANDI_AUTH_TOKEN so it does not show up in process listings.
+ */
+function parseTransportOptions(values: { transport?: string; host?: string; port?: string }): TransportOptions {
+  const transport = values.transport ?? process.env.DANDI_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "sse") {
+    throw new Error(`Unknown transport '${transport}' (expected 'stdio' or 'sse')`);
+  }
+  const port = Number(values.port ?? process.env.DANDI_HTTP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${values.port ?? process.env.DANDI_HTTP_PORT}'`);
+  }
+
+  return {
+    transport,
+    host: values.host ?? process.env.DANDI_HTTP_HOST ?? "127.0.0.1",
+    port,
+    authToken: process.env.DANDI_AUTH_TOKEN || undefined,
+  };
+}
+
+/**
+ * Run the server, or with `export-snapshot <file> [--backend name]
+ * [--tables a,b]` write a snapshot of a backend and exit
+ */
+async function main() {
+  const { values, positionals } = parseArgs({ options: COMMAND_LINE_OPTIONS, allowPositionals: true });
+  const [command, ...rest] = positionals;
+  if (command === undefined) return new DandiQueryServer().run(parseTransportOptions(values));
+  if (command === "export-snapshot" && rest.length === 1) {
+    const tables = values.tables?.split(",").map(table => table.trim()).filter(Boolean);
+    await new DandiQueryServer().exportSnapshot(rest[0], values.backend, tables);
+    process.exit(0);
+  }
+  throw new Error(`Unknown command '${positionals.join(" ")}' (expected: export-snapshot <file>)`);
 }
 
-const server = new DandiQueryServer();
-server.run().catch(console.error);
+Promise.resolve()
+  .then(main)
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,184 @@
+/**
+ * Foreign-key graph over the DANDI tables
+ *
+ * Built from the per-table responses of /api/sql/schema/. Declared foreign
+ * keys are used when the backend reports them; otherwise `<name>_id` columns
+ * are matched to the table they name (`species_id` → `dandisets_speciestype`,
+ * `asset_id` → `dandisets_asset`). Shortest paths through the graph give the
+ * bridge-table joins between any two tables.
+ */
+
+const TABLE_PREFIX = "dandisets_";
+
+export interface ColumnInfo {
+  name: string;
+  type?: string;
+  nullable?: boolean;
+}
+
+export interface JoinEdge {
+  from_table: string;
+  from_column: string;
+  to_table: string;
+  to_column: string;
+  source: "declared" | "inferred";
+}
+
+export interface JoinGraph {
+  tables: string[];
+  edges: JoinEdge[];
+}
+
+export interface JoinStep {
+  table: string;
+  alias: string;
+  on: string;
+  edge: JoinEdge;
+}
+
+export interface JoinPath {
+  tables: string[];
+  from: { table: string; alias: string };
+  joins: JoinStep[];
+  sql: string;
+}
+
+/**
+ * Normalize the column list of a table schema response. Columns may come
+ * back as an array of names, an array of objects or a name → type map.
+ */
+export function extractColumns(tableSchema: any): ColumnInfo[] {
+  const raw = tableSchema?.columns ?? tableSchema?.fields ?? tableSchema?.schema?.columns;
+  if (Array.isArray(raw)) {
+    return raw
+      .map((column: any): ColumnInfo | undefined => {
+        if (typeof column === "string") return { name: column };
+        const name = column?.name ?? column?.column_name;
+        if (typeof name !== "string") return undefined;
+        const nullable = column.nullable ?? column.is_nullable;
+        return {
+          name,
+          type: column.type ?? column.data_type,
+          nullable: typeof nullable === "string" ? nullable.toUpperCase() === "YES" : nullable,
+        };
+      })
+      .filter((column): column is ColumnInfo => column !== undefined);
+  }
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw).map(([name, type]) => ({ name, type: typeof type === "string" ? type : undefined }));
+  }
+  return [];
+}
+
+/**
+ * Foreign keys the backend reports explicitly, if any
+ */
+function declaredForeignKeys(table: string, tableSchema: any): JoinEdge[] {
+  const raw = tableSchema?.foreign_keys ?? tableSchema?.relationships;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((fk: any): JoinEdge | undefined => {
+      const column = fk?.column ?? fk?.column_name ?? fk?.from_column;
+      const target = fk?.references_table ?? fk?.foreign_table ?? fk?.to_table ?? fk?.table;
+      if (typeof column !== "string" || typeof target !== "string") return undefined;
+      return {
+        from_table: table,
+        from_column: column,
+        to_table: target,
+        to_column: fk.references_column ?? fk.foreign_column ?? fk.to_column ?? "id",
+        source: "declared",
+      };
+    })
+    .filter((edge): edge is JoinEdge => edge !== undefined);
+}
+
+/**
+ * Table named by an `<name>_id` column, e.g. `measurement_technique_id` →
+ * `dandisets_measurementtechniquetype`. The `*type` lookup table wins when
+ * both exist, so `species_id` points at `dandisets_speciestype` rather than
+ * `dandisets_species`.
+ */
+function inferTarget(column: string, tables: string[]): string | undefined {
+  const base = column.replace(/_id$/, "").replace(/_/g, "");
+  return tables.find(t => shortName(t) === `${base}type`) ?? tables.find(t => shortName(t) === base);
+}
+
+/**
+ * Table name without the `dandisets_` prefix; also used as its join alias
+ */
+export function shortName(table: string): string {
+  return table.startsWith(TABLE_PREFIX) ? table.slice(TABLE_PREFIX.length) : table;
+}
+
+/**
+ * Build the join graph from a `{ table: schemaResponse }` map
+ */
+export function buildJoinGraph(schema: Record<string, any>): JoinGraph {
+  const tables = Object.keys(schema);
+  const edges: JoinEdge[] = [];
+
+  for (const table of tables) {
+    const declared = declaredForeignKeys(table, schema[table]);
+    edges.push(...declared);
+
+    for (const column of extractColumns(schema[table])) {
+      if (!column.name.endsWith("_id") || declared.some(e => e.from_column === column.name)) continue;
+      const target = inferTarget(column.name, tables);
+      if (!target || target === table) continue;
+      edges.push({ from_table: table, from_column: column.name, to_table: target, to_column: "id", source: "inferred" });
+    }
+  }
+
+  return { tables, edges };
+}
+
+/**
+ * Resolve a user-supplied table name, accepting the short form
+ */
+export function resolveTable(graph: JoinGraph, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return graph.tables.find(t => t.toLowerCase() === lower) ??
+    graph.tables.find(t => shortName(t).toLowerCase() === lower.replace(/_/g, ""));
+}
+
+/**
+ * Shortest join chain between two tables (breadth-first; edges are
+ * traversed in either direction, declared keys before inferred ones)
+ */
+export function findJoinPath(graph: JoinGraph, from: string, to: string): JoinPath | undefined {
+  const previous = new Map<string, { table: string; edge: JoinEdge } | null>([[from, null]]);
+  const queue = [from];
+  const ordered = [...graph.edges].sort((a, b) => (a.source === "declared" ? 0 : 1) - (b.source === "declared" ? 0 : 1));
+
+  while (queue.length > 0 && !previous.has(to)) {
+    const table = queue.shift()!;
+    for (const edge of ordered) {
+      const neighbor = edge.from_table === table ? edge.to_table : edge.to_table === table ? edge.from_table : undefined;
+      if (!neighbor || previous.has(neighbor)) continue;
+      previous.set(neighbor, { table, edge });
+      queue.push(neighbor);
+    }
+  }
+
+  if (!previous.has(to)) return undefined;
+
+  const tables = [to];
+  const edges: JoinEdge[] = [];
+  for (let step = previous.get(to); step; step = previous.get(step.table)) {
+    tables.unshift(step.table);
+    edges.unshift(step.edge);
+  }
+
+  const joins = edges.map((edge, index): JoinStep => {
+    const table = tables[index + 1];
+    const on = `${shortName(edge.from_table)}.${edge.from_column} = ${shortName(edge.to_table)}.${edge.to_column}`;
+    return { table, alias: shortName(table), on, edge };
+  });
+
+  const sql = [
+    `FROM ${from} ${shortName(from)}`,
+    ...joins.map(join => `JOIN ${join.table} ${join.alias} ON ${join.on}`),
+  ].join("\n");
+
+  return { tables, from: { table: from, alias: shortName(from) }, joins, sql };
+}
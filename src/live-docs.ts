@@ -0,0 +1,150 @@
+/**
+ * Documentation generated from live backend responses
+ *
+ * The `dandi://docs/*` resources are rendered from /api/sql/schema/ and
+ * /api/filter-options/ so they always match the running backend. The static
+ * guides in the server are only used when these responses are unavailable.
+ */
+
+import { buildJoinGraph, extractColumns, JoinEdge, shortName } from "./join-graph.js";
+
+const MAX_EXAMPLE_LENGTH = 60;
+const MAX_FILTER_VALUES = 30;
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * First non-null value of a column across the sample rows, shortened for display
+ */
+function exampleValue(samples: Record<string, unknown>[], column: string): string {
+  const value = samples.map(row => row[column]).find(v => v !== null && v !== undefined && v !== "");
+  if (value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (text.length > MAX_EXAMPLE_LENGTH) text = `${text.slice(0, MAX_EXAMPLE_LENGTH - 1)}…`;
+  return `\`${escapeCell(text).replace(/`/g, "'")}\``;
+}
+
+function describeEdge(edge: JoinEdge): string {
+  return `\`${edge.from_table}.${edge.from_column}\` → \`${edge.to_table}.${edge.to_column}\``;
+}
+
+/**
+ * Full schema reference: every table with column types, nullability,
+ * example values and relationships
+ */
+export function renderSchemaReference(
+  schema: Record<string, any>,
+  samples: Record<string, Record<string, unknown>[]>,
+  generatedAt: Date
+): string {
+  const graph = buildJoinGraph(schema);
+  const lines = [
+    "# Database Schema Reference",
+    "",
+    `_Generated from the live backend schema at ${generatedAt.toISOString()}._`,
+    "",
+  ];
+
+  for (const table of Object.keys(schema).sort()) {
+    lines.push(`## ${table}`, "");
+
+    if (schema[table]?.error) {
+      lines.push(`_${schema[table].error}_`, "");
+      continue;
+    }
+
+    const description = schema[table]?.description ?? schema[table]?.table_description;
+    if (typeof description === "string" && description.trim()) lines.push(description.trim(), "");
+
+    const columns = extractColumns(schema[table]);
+    if (columns.length === 0) {
+      lines.push("_No column information returned._", "");
+      continue;
+    }
+
+    const rows = samples[table] ?? [];
+    lines.push("| Column | Type | Nullable | Example |", "| --- | --- | --- | --- |");
+    for (const column of columns) {
+      const nullable = column.nullable === undefined ? "" : column.nullable ? "yes" : "no";
+      lines.push(`| \`${column.name}\` | ${escapeCell(column.type ?? "")} | ${nullable} | ${exampleValue(rows, column.name)} |`);
+    }
+    lines.push("");
+
+    const outgoing = graph.edges.filter(e => e.from_table === table);
+    const incoming = graph.edges.filter(e => e.to_table === table);
+    if (outgoing.length || incoming.length) {
+      lines.push("**Relationships:**");
+      for (const edge of outgoing) lines.push(`- References ${describeEdge(edge)}`);
+      for (const edge of incoming) lines.push(`- Referenced by ${describeEdge(edge)}`);
+      lines.push("");
+    }
+  }
+
+  lines.push("Use `find_join_path` to get the JOIN clauses between any two tables.");
+  return lines.join("\n");
+}
+
+/**
+ * "Available Tables" section of the SQL guide
+ */
+export function renderTableSection(schema: Record<string, any>): string {
+  const graph = buildJoinGraph(schema);
+  const bridges = new Set(
+    Object.keys(schema).filter(table => {
+      const columns = extractColumns(schema[table]);
+      return columns.length > 0 && !columns.some(c => c.name === "id") &&
+        graph.edges.filter(e => e.from_table === table).length >= 2;
+    })
+  );
+
+  const describe = (table: string) => {
+    const columns = extractColumns(schema[table]).map(c => c.name);
+    return `- \`${table}\`${columns.length ? ` (${columns.join(", ")})` : ""}`;
+  };
+
+  const entities = Object.keys(schema).filter(t => !bridges.has(t)).sort();
+  const lines = ["## Available Tables", "", "### Entity and Reference Tables:", ...entities.map(describe)];
+  if (bridges.size) {
+    lines.push("", "### Relationship Tables:", ...[...bridges].sort().map(describe));
+  }
+  if (graph.edges.length) {
+    lines.push("", "### Join Keys:", ...graph.edges.map(edge =>
+      `- \`${shortName(edge.from_table)}.${edge.from_column} = ${shortName(edge.to_table)}.${edge.to_column}\``
+    ));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Display value of a filter option: a plain string or an object's name
+ */
+export function optionLabel(option: unknown): string {
+  if (option === null || typeof option !== "object") return String(option);
+  const record = option as Record<string, unknown>;
+  const label = record.name ?? record.value ?? record.label ?? record.identifier;
+  return label === undefined ? JSON.stringify(option) : String(label);
+}
+
+/**
+ * Valid values for each basic-search filter
+ */
+export function renderFilterValues(filterOptions: Record<string, unknown>): string {
+  const lines = ["## Current Filter Values", "", "_Generated from the live `/api/filter-options/` response._", ""];
+
+  for (const [filter, options] of Object.entries(filterOptions ?? {})) {
+    if (!Array.isArray(options)) continue;
+    lines.push(`### ${filter} (${options.length} values)`);
+    for (const option of options.slice(0, MAX_FILTER_VALUES)) {
+      const count = option && typeof option === "object" ? (option as Record<string, unknown>).count : undefined;
+      lines.push(`- \`${optionLabel(option)}\`${typeof count === "number" ? ` (${count})` : ""}`);
+    }
+    if (options.length > MAX_FILTER_VALUES) {
+      lines.push(`- … ${options.length - MAX_FILTER_VALUES} more (use \`get_filter_options\` for the full list)`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,113 @@
+/**
+ * Offset pagination helpers for the DANDI REST search endpoints
+ *
+ * The search endpoints return one page at a time as `{ results, count }`.
+ * These helpers walk `offset` until the reported `count` is reached (or a
+ * hard ceiling is hit) and merge the pages into a single de-duplicated list.
+ */
+
+// Hard ceilings for "fetch all" mode, regardless of what the caller asks for
+export const FETCH_ALL_PAGE_SIZE = 100;
+export const FETCH_ALL_MAX_ROWS = 5000;
+export const FETCH_ALL_MAX_PAGES = 50;
+
+export interface SearchPage<T> {
+  results: T[];
+  count: number;
+}
+
+export interface FetchAllOptions {
+  pageSize?: number;
+  maxRows?: number;
+  maxPages?: number;
+  /**
+   * Invoked after every page with the number of unique rows merged so far
+   * and the total reported by the backend
+   */
+  onPage?: (fetched: number, total: number) => void | Promise<void>;
+}
+
+export interface FetchAllResult<T> {
+  results: T[];
+  total: number;
+  pages: number;
+  duplicates_removed: number;
+  truncated: boolean;
+  stop_reason: "complete" | "max_rows" | "max_pages" | "empty_page";
+}
+
+/**
+ * Key used to de-duplicate rows across pages. Rows returned by the search
+ * endpoints carry an `id`; anything else falls back to its JSON encoding.
+ */
+function rowKey(row: unknown): string {
+  if (row && typeof row === "object" && "id" in row) {
+    return `id:${String((row as { id: unknown }).id)}`;
+  }
+  return `json:${JSON.stringify(row)}`;
+}
+
+/**
+ * Fetch every page of an offset-paginated search, up to the configured ceilings
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (offset: number, limit: number) => Promise<SearchPage<T>>,
+  options: FetchAllOptions = {}
+): Promise<FetchAllResult<T>> {
+  const pageSize = Math.min(options.pageSize ?? FETCH_ALL_PAGE_SIZE, FETCH_ALL_PAGE_SIZE);
+  const maxRows = Math.min(options.maxRows ?? FETCH_ALL_MAX_ROWS, FETCH_ALL_MAX_ROWS);
+  const maxPages = Math.min(options.maxPages ?? FETCH_ALL_MAX_PAGES, FETCH_ALL_MAX_PAGES);
+
+  const seen = new Set<string>();
+  const results: T[] = [];
+  let duplicates = 0;
+  let total = 0;
+  let pages = 0;
+  let offset = 0;
+  let stopReason: FetchAllResult<T>["stop_reason"] = "complete";
+
+  while (true) {
+    if (pages >= maxPages) {
+      stopReason = "max_pages";
+      break;
+    }
+
+    const page = await fetchPage(offset, Math.min(pageSize, maxRows - results.length));
+    pages++;
+    total = page.count;
+
+    for (const row of page.results) {
+      const key = rowKey(row);
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      results.push(row);
+      if (results.length >= maxRows) break;
+    }
+
+    if (options.onPage) await options.onPage(results.length, total);
+
+    offset += page.results.length;
+
+    if (page.results.length === 0) {
+      stopReason = offset >= total ? "complete" : "empty_page";
+      break;
+    }
+    if (offset >= total) break;
+    if (results.length >= maxRows) {
+      stopReason = "max_rows";
+      break;
+    }
+  }
+
+  return {
+    results,
+    total,
+    pages,
+    duplicates_removed: duplicates,
+    truncated: stopReason !== "complete",
+    stop_reason: stopReason,
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Research-workflow prompt templates
+ *
+ * Each prompt names the documentation resources it embeds, the filter
+ * option categories its arguments should be checked against, and the
+ * instructions sent to the model once arguments are bound.
+ */
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /** dandi:// resources embedded ahead of the instructions */
+  resources: string[];
+  /** Argument name → filter-options categories its value is matched against */
+  filterArguments: Record<string, string[]>;
+  instructions: (args: Record<string, string>) => string;
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "find_reanalysis_candidates",
+    description: "Find dandisets suitable for reanalysis for a species and measurement technique",
+    arguments: [
+      { name: "species", description: "Species, e.g. 'Mus musculus'", required: true },
+      { name: "technique", description: "Measurement technique or approach, e.g. 'extracellular electrophysiology'", required: true },
+      { name: "anatomy", description: "Optional anatomical region, e.g. 'hippocampus'" },
+      { name: "min_subjects", description: "Optional minimum number of subjects (default 3)" },
+    ],
+    resources: ["dandi://docs/basic-search", "dandi://docs/sql-queries", "dandi://examples/sql"],
+    filterArguments: {
+      species: ["species"],
+      technique: ["measurement_technique", "approach"],
+      anatomy: ["anatomy"],
+    },
+    instructions: args => `Find dandisets that are good candidates for reanalysis.
+
+Criteria:
+- Species: ${args.species}
+- Measurement technique: ${args.technique}${args.anatomy ? `\n- Anatomy: ${args.anatomy}` : ""}
+- At least ${args.min_subjects || 3} subjects
+
+Steps:
+1. Map the criteria to exact filter values using the matching filter options above.
+2. Use \`search_datasets\` with those values to get an initial candidate list.
+3. Use \`build_query\` (target "dandiset", with min_subjects and an appropriate min_sessions_per_subject) to rank candidates by subject and session counts.
+4. For the top candidates, report id, name, subject count, session count, total size and why each is (or is not) suitable for reanalysis.`,
+  },
+  {
+    name: "audit_dandiset",
+    description: "Audit the subject/session structure of one dandiset",
+    arguments: [
+      { name: "dandiset_id", description: "Numeric dandiset id, e.g. 124", required: true },
+    ],
+    resources: ["dandi://docs/schema", "dandi://examples/sql"],
+    filterArguments: {},
+    instructions: args => `Audit the structure of dandiset ${args.dandiset_id}.
+
+Steps:
+1. Use \`search_assets\` with dandiset_id ${args.dandiset_id} and fetch_all to list every asset.
+2. Use \`group_result\` on the stored result to count assets per subject and per variable_measured.
+3. Use \`execute_sql\` to check species, sex and age of the participants (dandisets_participant via dandisets_assetwasattributedto; use \`find_join_path\` if unsure of the joins).
+4. Report: number of subjects, sessions per subject (min/median/max), subjects with a single session, assets without a participant, missing species/sex/age metadata, and any inconsistencies in file naming or variables measured.`,
+  },
+  {
+    name: "compare_dandisets",
+    description: "Compare two dandisets side by side",
+    arguments: [
+      { name: "dandiset_a", description: "First dandiset id", required: true },
+      { name: "dandiset_b", description: "Second dandiset id", required: true },
+    ],
+    resources: ["dandi://docs/schema", "dandi://docs/sql-queries", "dandi://examples/sql"],
+    filterArguments: {},
+    instructions: args => `Compare dandiset ${args.dandiset_a} with dandiset ${args.dandiset_b}.
+
+For each dandiset collect: name and description, species, anatomy, approach and measurement technique, number of subjects and assets, sessions per subject, total size, and the variables measured.
+
+Use \`search_assets\` (fetch_all) or \`build_query\` for counts and \`execute_sql\` for metadata. Present the comparison as a table with one row per attribute, then summarize whether the two datasets could be analyzed together and what would need harmonizing.`,
+  },
+];
+
+/**
+ * Check required arguments and drop unknown ones
+ */
+export function bindPromptArguments(prompt: PromptDefinition, args: Record<string, string> = {}): Record<string, string> {
+  const bound: Record<string, string> = {};
+  for (const argument of prompt.arguments) {
+    const value = args[argument.name];
+    if (value === undefined || value === "") {
+      if (argument.required) throw new Error(`Missing required argument '${argument.name}'`);
+      continue;
+    }
+    bound[argument.name] = value;
+  }
+  return bound;
+}
+
+/**
+ * Filter options whose label contains the argument value (case-insensitive),
+ * grouped by argument
+ */
+export function matchFilterOptions(
+  prompt: PromptDefinition,
+  args: Record<string, string>,
+  filterOptions: Record<string, unknown>
+): Record<string, Record<string, unknown[]>> {
+  const matches: Record<string, Record<string, unknown[]>> = {};
+  for (const [argument, categories] of Object.entries(prompt.filterArguments)) {
+    const value = args[argument]?.toLowerCase();
+    if (!value) continue;
+    matches[argument] = {};
+    for (const category of categories) {
+      const options = filterOptions[category];
+      if (!Array.isArray(options)) continue;
+      matches[argument][category] = options.filter(option => {
+        const label = option && typeof option === "object"
+          ? Object.values(option as Record<string, unknown>).filter(v => typeof v === "string").join(" ")
+          : String(option);
+        return label.toLowerCase().includes(value);
+      });
+    }
+  }
+  return matches;
+}
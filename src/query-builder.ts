@@ -0,0 +1,267 @@
+/**
+ * Declarative query builder
+ *
+ * Compiles a structured spec into SQL over the DANDI tables so callers do not
+ * have to hand-write the asset → dandiset → participant bridge joins. All
+ * filters narrow one `matching_assets` CTE; subject/session thresholds and
+ * the final projection are layered on top of it.
+ */
+
+export const QUERY_TARGETS = ["dandiset", "asset", "participant"] as const;
+
+export type QueryTarget = typeof QUERY_TARGETS[number];
+
+export const QUERY_AGGREGATIONS = ["asset_count", "subject_count", "total_bytes"] as const;
+
+export type QueryAggregation = typeof QUERY_AGGREGATIONS[number];
+
+export interface QuerySpec {
+  target: QueryTarget;
+  species?: string[];
+  anatomy?: string[];
+  approach?: string[];
+  measurement_technique?: string[];
+  variable_measured?: string[];
+  dandiset_id?: number;
+  min_subjects?: number;
+  min_sessions_per_subject?: number;
+  min_size_bytes?: number;
+  max_size_bytes?: number;
+  /** Raw `dandisets_participant.age` values to keep (resolved from min_age/max_age by the caller) */
+  age_values?: string[];
+  aggregations?: QueryAggregation[];
+  order_by?: string;
+  order_direction?: "asc" | "desc";
+  limit?: number;
+}
+
+export interface BuiltQuery {
+  sql: string;
+  columns: string[];
+  notes: string[];
+}
+
+export const BUILD_QUERY_MAX_LIMIT = 1000;
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Quote a value as a SQL string literal
+ */
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Case-insensitive substring match against any of the given values.
+ * LIKE wildcards in the values are escaped so they match literally.
+ */
+export function ilikeAny(expression: string, values: string[]): string {
+  const patterns = values.map(v => sqlString(`%${v.replace(/[\\%_]/g, c => `\\${c}`)}%`));
+  return `(${patterns.map(p => `${expression} ILIKE ${p}`).join(" OR ")})`;
+}
+
+function assertPositiveInteger(name: string, value: number | undefined) {
+  if (value === undefined) return;
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+}
+
+function assertStrings(name: string, values: string[] | undefined) {
+  if (values === undefined) return;
+  if (!Array.isArray(values) || values.length === 0 || values.some(v => typeof v !== "string" || v.trim() === "")) {
+    throw new Error(`${name} must be a non-empty array of non-empty strings`);
+  }
+}
+
+/**
+ * Compile a query spec into a single read-only SELECT statement
+ */
+export function buildQuery(spec: QuerySpec): BuiltQuery {
+  if (!QUERY_TARGETS.includes(spec.target)) {
+    throw new Error(`target must be one of: ${QUERY_TARGETS.join(", ")}`);
+  }
+  for (const key of ["species", "anatomy", "approach", "measurement_technique", "variable_measured"] as const) {
+    assertStrings(key, spec[key]);
+  }
+  assertPositiveInteger("min_subjects", spec.min_subjects);
+  assertPositiveInteger("min_sessions_per_subject", spec.min_sessions_per_subject);
+  assertPositiveInteger("limit", spec.limit);
+  assertPositiveInteger("dandiset_id", spec.dandiset_id);
+  for (const key of ["min_size_bytes", "max_size_bytes"] as const) {
+    const value = spec[key];
+    if (value !== undefined && (typeof value !== "number" || value < 0)) {
+      throw new Error(`${key} must be a non-negative number`);
+    }
+  }
+  for (const aggregation of spec.aggregations ?? []) {
+    if (!QUERY_AGGREGATIONS.includes(aggregation)) {
+      throw new Error(`aggregations must be drawn from: ${QUERY_AGGREGATIONS.join(", ")}`);
+    }
+  }
+
+  const notes: string[] = [];
+  const limit = Math.min(spec.limit ?? DEFAULT_LIMIT, BUILD_QUERY_MAX_LIMIT);
+  if (spec.limit && spec.limit > BUILD_QUERY_MAX_LIMIT) {
+    notes.push(`limit reduced to ${BUILD_QUERY_MAX_LIMIT}`);
+  }
+
+  // Asset-level filters
+  const joins = [
+    "JOIN dandisets_assetdandiset ad ON ad.asset_id = a.id",
+    "LEFT JOIN dandisets_assetwasattributedto awo ON awo.asset_id = a.id",
+  ];
+  const conditions: string[] = [];
+
+  if (spec.species || spec.age_values) {
+    joins.push("JOIN dandisets_participant p ON p.id = awo.participant_id");
+  }
+  if (spec.species) {
+    joins.push("JOIN dandisets_speciestype st ON st.id = p.species_id");
+    conditions.push(ilikeAny("st.name", spec.species));
+  }
+  if (spec.age_values) {
+    // Ages are free text, so the caller parses them and passes the matching raw values
+    conditions.push(spec.age_values.length
+      ? `p.age::text IN (${spec.age_values.map(sqlString).join(", ")})`
+      : "FALSE");
+  }
+  if (spec.variable_measured) {
+    conditions.push(ilikeAny("a.variable_measured::text", spec.variable_measured));
+  }
+  if (spec.approach) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM dandisets_assetapproach aap
+      JOIN dandisets_approachtype apt ON apt.id = aap.approach_id
+      WHERE aap.asset_id = a.id AND ${ilikeAny("apt.name", spec.approach)}
+    )`);
+  }
+  if (spec.measurement_technique) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM dandisets_assetmeasurementtechnique amt
+      JOIN dandisets_measurementtechniquetype mtt ON mtt.id = amt.measurement_technique_id
+      WHERE amt.asset_id = a.id AND ${ilikeAny("mtt.name", spec.measurement_technique)}
+    )`);
+  }
+  if (spec.anatomy) {
+    // Anatomy is recorded per dandiset in dandisets_dandisetabout
+    conditions.push(`EXISTS (
+      SELECT 1 FROM dandisets_dandisetabout dab
+      JOIN dandisets_anatomy an ON an.id = dab.anatomy_id
+      WHERE dab.dandiset_id = ad.dandiset_id AND ${ilikeAny("an.name", spec.anatomy)}
+    )`);
+  }
+  if (spec.dandiset_id !== undefined) {
+    conditions.push(`ad.dandiset_id = ${spec.dandiset_id}`);
+  }
+  if (spec.min_size_bytes !== undefined) {
+    conditions.push(`a.content_size >= ${Math.floor(spec.min_size_bytes)}`);
+  }
+  if (spec.max_size_bytes !== undefined) {
+    conditions.push(`a.content_size <= ${Math.floor(spec.max_size_bytes)}`);
+  }
+
+  const ctes = [`matching_assets AS (
+  SELECT DISTINCT a.id AS asset_id, ad.dandiset_id, awo.participant_id, a.content_size
+  FROM dandisets_asset a
+  ${joins.join("\n  ")}${conditions.length ? `\n  WHERE ${conditions.join("\n    AND ")}` : ""}
+)`];
+  let scope = "matching_assets";
+
+  // Subject/session thresholds
+  if (spec.min_sessions_per_subject !== undefined) {
+    ctes.push(`qualified_subjects AS (
+  SELECT dandiset_id, participant_id
+  FROM matching_assets
+  WHERE participant_id IS NOT NULL
+  GROUP BY dandiset_id, participant_id
+  HAVING COUNT(DISTINCT asset_id) >= ${spec.min_sessions_per_subject}
+)`);
+    ctes.push(`subject_assets AS (
+  SELECT ma.*
+  FROM matching_assets ma
+  JOIN qualified_subjects qs ON qs.dandiset_id = ma.dandiset_id AND qs.participant_id = ma.participant_id
+)`);
+    scope = "subject_assets";
+  }
+  if (spec.min_subjects !== undefined) {
+    ctes.push(`qualified_dandisets AS (
+  SELECT dandiset_id
+  FROM ${scope}
+  GROUP BY dandiset_id
+  HAVING COUNT(DISTINCT participant_id) >= ${spec.min_subjects}
+)`);
+    ctes.push(`scoped_assets AS (
+  SELECT s.*
+  FROM ${scope} s
+  JOIN qualified_dandisets qd ON qd.dandiset_id = s.dandiset_id
+)`);
+    scope = "scoped_assets";
+  }
+
+  const aggregations = spec.aggregations ?? [...QUERY_AGGREGATIONS];
+  const aggregateExpressions: Record<QueryAggregation, string> = {
+    asset_count: "COUNT(DISTINCT m.asset_id) AS asset_count",
+    subject_count: "COUNT(DISTINCT m.participant_id) AS subject_count",
+    total_bytes: "SUM(m.content_size) AS total_bytes",
+  };
+
+  let select: string;
+  let columns: string[];
+  let defaultOrder: string;
+
+  switch (spec.target) {
+    case "dandiset": {
+      columns = ["id", "name", ...aggregations];
+      const aggregates = aggregations.map(a => `    ${aggregateExpressions[a]}`);
+      select = `SELECT d.id, d.name${aggregations.map(a => `, agg.${a}`).join("")}
+FROM dandisets_dandiset d
+JOIN (
+  SELECT m.dandiset_id${aggregates.length ? `,\n${aggregates.join(",\n")}` : ""}
+  FROM ${scope} m
+  GROUP BY m.dandiset_id
+) agg ON agg.dandiset_id = d.id`;
+      defaultOrder = aggregations.includes("subject_count") ? "subject_count DESC" : "id ASC";
+      break;
+    }
+    case "participant": {
+      const participantAggregations = aggregations.filter(a => a !== "subject_count");
+      if (participantAggregations.length !== aggregations.length) {
+        notes.push("subject_count does not apply to participant targets and was dropped");
+      }
+      columns = ["id", "identifier", "dandiset_id", ...participantAggregations];
+      select = `SELECT p.id, p.identifier, m.dandiset_id${participantAggregations.map(a => `, ${aggregateExpressions[a]}`).join("")}
+FROM ${scope} m
+JOIN dandisets_participant p ON p.id = m.participant_id
+GROUP BY p.id, p.identifier, m.dandiset_id`;
+      defaultOrder = "dandiset_id ASC, id ASC";
+      break;
+    }
+    case "asset": {
+      if (spec.aggregations?.length) {
+        notes.push("aggregations do not apply to asset targets and were ignored");
+      }
+      columns = ["id", "path", "content_size", "variable_measured", "dandiset_id", "participant_id"];
+      select = `SELECT a.id, a.path, a.content_size, a.variable_measured, m.dandiset_id, m.participant_id
+FROM ${scope} m
+JOIN dandisets_asset a ON a.id = m.asset_id`;
+      defaultOrder = "dandiset_id ASC, id ASC";
+      break;
+    }
+  }
+
+  let order = defaultOrder;
+  if (spec.order_by) {
+    if (!columns.includes(spec.order_by)) {
+      throw new Error(`order_by must be one of the output columns: ${columns.join(", ")}`);
+    }
+    order = `${spec.order_by} ${spec.order_direction === "asc" ? "ASC" : "DESC"}`;
+  }
+
+  const sql = `WITH ${ctes.join(",\n")}
+${select}
+ORDER BY ${order}
+LIMIT ${limit}`;
+
+  return { sql, columns, notes };
+}
@@ -0,0 +1,202 @@
+/**
+ * EXPLAIN plans for cost checks before running a query
+ *
+ * Queries are explained through /api/sql/execute/ as
+ * `EXPLAIN (FORMAT JSON) ...`, optionally with ANALYZE, which runs the query.
+ * The planner output is folded into a tree of plan nodes with the estimated
+ * (and, for ANALYZE, actual) rows and costs, and scanned for patterns that
+ * make queries slow on the DANDI tables, above all sequential scans of
+ * dandisets_asset. Costs are in PostgreSQL planner units, not time.
+ */
+
+export interface PlanNode {
+  node_type: string;
+  relation?: string;
+  alias?: string;
+  startup_cost: number;
+  total_cost: number;
+  estimated_rows: number;
+  width?: number;
+  actual_rows?: number;
+  actual_time_ms?: number;
+  loops?: number;
+  filter?: string;
+  children: PlanNode[];
+}
+
+export interface PlanWarning {
+  code: string;
+  message: string;
+  node: string;
+}
+
+export interface ExplainResult {
+  total_cost: number;
+  estimated_rows: number;
+  analyzed: boolean;
+  planning_time_ms?: number;
+  execution_time_ms?: number;
+  plan: PlanNode;
+  warnings: PlanWarning[];
+}
+
+// Tables large enough that a full scan is worth warning about
+const LARGE_TABLES = ["dandisets_asset", "dandisets_assetdandiset", "dandisets_assetwasattributedto"];
+const LARGE_SEQ_SCAN_ROWS = 100000;
+const NESTED_LOOP_WARN_ROWS = 1000000;
+
+/**
+ * Wrap a SELECT in EXPLAIN; a trailing semicolon is dropped
+ */
+export function explainStatement(sql: string, analyze = false): string {
+  const options = analyze ? "FORMAT JSON, ANALYZE" : "FORMAT JSON";
+  return `EXPLAIN (${options}) ${sql.trim().replace(/;\s*$/, "")}`;
+}
+
+const number = (value: unknown): number | undefined =>
+  value === undefined || value === null || !Number.isFinite(Number(value)) ? undefined : Number(value);
+
+const text = (value: unknown): string | undefined =>
+  value === undefined || value === null || value === "" ? undefined : String(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function jsonNode(raw: Record<string, unknown>): PlanNode {
+  const relation = text(raw["Relation Name"]);
+  const alias = text(raw["Alias"]);
+  const filter = text(raw["Filter"]);
+  return {
+    node_type: text(raw["Node Type"]) ?? "Unknown",
+    ...(relation && { relation }),
+    ...(alias && alias !== relation && { alias }),
+    startup_cost: number(raw["Startup Cost"]) ?? 0,
+    total_cost: number(raw["Total Cost"]) ?? 0,
+    estimated_rows: number(raw["Plan Rows"]) ?? 0,
+    ...(number(raw["Plan Width"]) !== undefined && { width: number(raw["Plan Width"]) }),
+    ...(number(raw["Actual Rows"]) !== undefined && { actual_rows: number(raw["Actual Rows"]) }),
+    ...(number(raw["Actual Total Time"]) !== undefined && { actual_time_ms: number(raw["Actual Total Time"]) }),
+    ...(number(raw["Actual Loops"]) !== undefined && { loops: number(raw["Actual Loops"]) }),
+    ...(filter && { filter }),
+    children: Array.isArray(raw["Plans"]) ? raw["Plans"].filter(isRecord).map(jsonNode) : [],
+  };
+}
+
+// e.g. "->  Seq Scan on dandisets_asset a  (cost=0.00..1234.50 rows=1000 width=8) (actual time=0.01..5.2 rows=900 loops=1)"
+const TEXT_NODE = /^(\s*)(?:->\s+)?(.+?)\s+\(cost=([\d.]+)\.\.([\d.]+) rows=(\d+) width=(\d+)\)(?: \(actual time=[\d.]+\.\.([\d.]+) rows=(\d+) loops=(\d+)\))?/;
+
+/**
+ * Fold text-format EXPLAIN lines into a tree by their indentation
+ */
+function textPlan(lines: string[]): PlanNode | undefined {
+  const stack: { depth: number; node: PlanNode }[] = [];
+  let root: PlanNode | undefined;
+  for (const line of lines) {
+    const match = TEXT_NODE.exec(line);
+    if (!match) {
+      const filter = /^\s*Filter: (.*)$/.exec(line);
+      if (filter && stack.length) stack[stack.length - 1].node.filter = filter[1];
+      continue;
+    }
+    const [, indent, label, startup, total, rows, width, actualTime, actualRows, loops] = match;
+    const scan = /^(.*?) on (\S+)(?: (\S+))?$/.exec(label);
+    const node: PlanNode = {
+      node_type: scan ? scan[1] : label,
+      ...(scan && { relation: scan[2] }),
+      ...(scan?.[3] && { alias: scan[3] }),
+      startup_cost: Number(startup),
+      total_cost: Number(total),
+      estimated_rows: Number(rows),
+      width: Number(width),
+      ...(actualTime !== undefined && { actual_time_ms: Number(actualTime), actual_rows: Number(actualRows), loops: Number(loops) }),
+      children: [],
+    };
+    const depth = indent.length;
+    while (stack.length && stack[stack.length - 1].depth >= depth) stack.pop();
+    if (stack.length) stack[stack.length - 1].node.children.push(node);
+    else root ??= node;
+    stack.push({ depth, node });
+  }
+  return root;
+}
+
+/**
+ * Parse the rows of an EXPLAIN response: one JSON document (as a value or a
+ * string) or one text line per row
+ */
+export function parsePlan(rows: Record<string, unknown>[]): Omit<ExplainResult, "warnings"> {
+  const cells = rows.map(row => Object.values(row)[0]);
+  let document: unknown = cells.length === 1 ? cells[0] : undefined;
+  if (typeof document === "string") {
+    try {
+      document = JSON.parse(document);
+    } catch {
+      document = undefined;
+    }
+  }
+  const top = Array.isArray(document) ? document[0] : document;
+
+  if (isRecord(top) && isRecord(top["Plan"])) {
+    const plan = jsonNode(top["Plan"]);
+    return {
+      total_cost: plan.total_cost,
+      estimated_rows: plan.estimated_rows,
+      analyzed: plan.actual_rows !== undefined,
+      ...(number(top["Planning Time"]) !== undefined && { planning_time_ms: number(top["Planning Time"]) }),
+      ...(number(top["Execution Time"]) !== undefined && { execution_time_ms: number(top["Execution Time"]) }),
+      plan,
+    };
+  }
+
+  const plan = textPlan(cells.map(cell => String(cell ?? "")));
+  if (!plan) throw new Error("Unrecognized EXPLAIN output");
+  return { total_cost: plan.total_cost, estimated_rows: plan.estimated_rows, analyzed: plan.actual_rows !== undefined, plan };
+}
+
+function describeNode(node: PlanNode): string {
+  return node.relation ? `${node.node_type} on ${node.relation}${node.alias ? ` ${node.alias}` : ""}` : node.node_type;
+}
+
+/**
+ * Plan patterns that usually make a query slow
+ */
+export function planWarnings(plan: PlanNode): PlanWarning[] {
+  const warnings: PlanWarning[] = [];
+  const visit = (node: PlanNode) => {
+    if (node.node_type === "Seq Scan" && node.relation) {
+      if (LARGE_TABLES.includes(node.relation)) {
+        warnings.push({
+          code: "seq_scan_large_table",
+          message: `Sequential scan of ${node.relation}${node.filter ? ` filtered by ${node.filter}` : ""}; filter on an indexed column (id, dandiset_id, asset_id) or narrow the query first`,
+          node: describeNode(node),
+        });
+      } else if (node.estimated_rows >= LARGE_SEQ_SCAN_ROWS) {
+        warnings.push({
+          code: "seq_scan_many_rows",
+          message: `Sequential scan of ${node.relation} expected to return ${node.estimated_rows} rows`,
+          node: describeNode(node),
+        });
+      }
+    }
+    if (node.node_type === "Nested Loop" && node.estimated_rows >= NESTED_LOOP_WARN_ROWS) {
+      warnings.push({
+        code: "large_nested_loop",
+        message: `Nested loop expected to produce ${node.estimated_rows} rows; check the join conditions`,
+        node: describeNode(node),
+      });
+    }
+    if (node.actual_rows !== undefined && node.estimated_rows > 0) {
+      const ratio = node.actual_rows / node.estimated_rows;
+      if (ratio > 100 || (node.actual_rows > 0 && ratio < 0.01)) {
+        warnings.push({
+          code: "misestimate",
+          message: `Planner expected ${node.estimated_rows} rows but got ${node.actual_rows}`,
+          node: describeNode(node),
+        });
+      }
+    }
+    node.children.forEach(visit);
+  };
+  visit(plan);
+  return warnings;
+}
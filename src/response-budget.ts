@@ -0,0 +1,248 @@
+/**
+ * Keep tool responses within a character budget
+ *
+ * Responses are measured by the length of their text content (roughly four
+ * characters per token). Row results are cut between rows: the response keeps
+ * as many leading rows as fit, summarizes the rows it leaves out (count and
+ * per-column statistics) and returns a cursor that continues from the first
+ * omitted row. Other JSON responses have their largest lists shortened, and
+ * plain text is cut at a line break, so the result is always well-formed.
+ */
+
+import { Tabular } from "./formatters.js";
+
+export const MIN_MAX_CHARS = 1000;
+export const MAX_MAX_CHARS = 1_000_000;
+
+export interface ResponseShape {
+  /** Columns to keep in row results; dotted names reach into nested objects */
+  fields?: string[];
+  /** Character budget for the whole response */
+  max_chars?: number;
+}
+
+export interface ColumnSummary {
+  non_null: number;
+  /** Distinct values, counted up to MAX_DISTINCT_COUNTED */
+  distinct: number | string;
+  min?: number;
+  max?: number;
+  mean?: number;
+  sample?: unknown;
+}
+
+export interface RowsSummary {
+  row_count: number;
+  columns: Record<string, ColumnSummary>;
+}
+
+export interface TruncatedPath {
+  path: string;
+  kept: number;
+  total: number;
+}
+
+const MAX_DISTINCT_COUNTED = 1000;
+const MAX_SAMPLE_CHARS = 80;
+const CURSOR_PATTERN = /^([a-f0-9]{12}):(\d+)$/;
+
+type Content = { type: string; text?: string }[];
+
+export function contentLength(content: Content): number {
+  return content.reduce((sum, block) => sum + (block.text?.length ?? 0), 0);
+}
+
+/**
+ * Cursor continuing a stored result set at the given row
+ */
+export function encodeCursor(resultId: string, offset: number): string {
+  return `${resultId}:${offset}`;
+}
+
+export function decodeCursor(cursor: string): { resultId: string; offset: number } {
+  const match = CURSOR_PATTERN.exec(cursor.trim());
+  if (!match) throw new Error(`Invalid cursor '${cursor}'; pass the cursor from a truncated response`);
+  return { resultId: match[1], offset: Number(match[2]) };
+}
+
+function sample(value: unknown): unknown {
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > MAX_SAMPLE_CHARS ? `${text.slice(0, MAX_SAMPLE_CHARS)}…` : value;
+}
+
+/**
+ * Row count and per-column statistics for rows left out of a response
+ */
+export function summarizeRows(table: Tabular): RowsSummary {
+  const columns: Record<string, ColumnSummary> = {};
+  for (const column of table.columns) {
+    const distinct = new Set<string>();
+    let nonNull = 0;
+    let numbers = 0;
+    let sum = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    let first: unknown;
+
+    for (const row of table.rows) {
+      const value = row[column];
+      if (value === null || value === undefined) continue;
+      nonNull++;
+      if (first === undefined) first = value;
+      if (distinct.size <= MAX_DISTINCT_COUNTED) distinct.add(typeof value === "object" ? JSON.stringify(value) : String(value));
+      if (typeof value === "number" && Number.isFinite(value)) {
+        numbers++;
+        sum += value;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+
+    columns[column] = {
+      non_null: nonNull,
+      distinct: distinct.size > MAX_DISTINCT_COUNTED ? `>${MAX_DISTINCT_COUNTED}` : distinct.size,
+      ...(numbers > 0 && numbers === nonNull && { min, max, mean: Number((sum / numbers).toPrecision(6)) }),
+      ...(first !== undefined && { sample: sample(first) }),
+    };
+  }
+  return { row_count: table.rows.length, columns };
+}
+
+/**
+ * Largest row count in [0, available] whose rendering fits the budget;
+ * `render` must grow with the row count
+ */
+export function fitRowCount(available: number, maxChars: number, render: (rows: number) => Content): number {
+  if (contentLength(render(available)) <= maxChars) return available;
+  let low = 0;
+  let high = available - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (contentLength(render(middle)) <= maxChars) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+interface Collection {
+  path: string;
+  entries: number;
+  size: number;
+  /** Drop all but the first `keep` entries */
+  shorten: (keep: number) => void;
+}
+
+/**
+ * The largest array or nested object (by serialized size) with more than
+ * one entry. The top-level object is never shortened, so its status fields
+ * survive.
+ */
+function largestCollection(value: unknown, path: string): Collection | undefined {
+  let best: Collection | undefined;
+  const consider = (candidate: Collection | undefined) => {
+    if (candidate && (!best || candidate.size > best.size)) best = candidate;
+  };
+  if (Array.isArray(value)) {
+    if (value.length > 1) {
+      consider({ path: path || "(root)", entries: value.length, size: JSON.stringify(value).length, shorten: keep => { value.splice(keep); } });
+    }
+    value.forEach((item, index) => consider(largestCollection(item, `${path}[${index}]`)));
+  } else if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record);
+    if (path && keys.length > 1) {
+      consider({ path, entries: keys.length, size: JSON.stringify(record).length, shorten: keep => { keys.slice(keep).forEach(key => delete record[key]); } });
+    }
+    for (const key of keys) consider(largestCollection(record[key], path ? `${path}.${key}` : key));
+  }
+  return best;
+}
+
+/**
+ * Longest string inside a JSON value, with a setter to replace it
+ */
+function longestString(value: unknown): { text: string; replace: (text: string) => void } | undefined {
+  let best: { text: string; replace: (text: string) => void } | undefined;
+  // Arrays are indexed by their keys too
+  const visit = (container: Record<string, unknown>) => {
+    for (const key of Object.keys(container)) {
+      const child = container[key];
+      if (typeof child === "string") {
+        if (!best || child.length > best.text.length) best = { text: child, replace: text => { container[key] = text; } };
+      } else if (child && typeof child === "object") {
+        visit(child as Record<string, unknown>);
+      }
+    }
+  };
+  if (value && typeof value === "object") visit(value as Record<string, unknown>);
+  return best;
+}
+
+/**
+ * Shorten a JSON document to fit the budget by halving its largest arrays
+ * and nested objects (then its longest strings). Objects gain a
+ * `response_truncated` field listing what was shortened.
+ */
+export function fitJsonText(text: string, maxChars: number): string {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return fitPlainText(text, maxChars);
+  }
+  const indent = text.includes("\n") ? 2 : undefined;
+  const truncated: TruncatedPath[] = [];
+  const render = () => JSON.stringify(
+    truncated.length > 0 && value && typeof value === "object" && !Array.isArray(value)
+      ? { ...value, response_truncated: { max_chars: maxChars, shortened: truncated } }
+      : value,
+    null,
+    indent
+  );
+
+  let rendered = render();
+  while (rendered.length > maxChars) {
+    const collection = largestCollection(value, "");
+    if (collection) {
+      const kept = Math.floor(collection.entries / 2);
+      const previous = truncated.find(entry => entry.path === collection.path);
+      if (previous) previous.kept = kept;
+      else truncated.push({ path: collection.path, kept, total: collection.entries });
+      collection.shorten(kept);
+    } else {
+      const longest = longestString(value);
+      if (!longest || longest.text.length <= MAX_SAMPLE_CHARS) break;
+      longest.replace(`${longest.text.slice(0, Math.floor(longest.text.length / 2))}… [truncated]`);
+    }
+    rendered = render();
+  }
+  return rendered.length > maxChars ? fitPlainText(rendered, maxChars) : rendered;
+}
+
+/**
+ * Cut text at the last line break within the budget and say how much was left out
+ */
+export function fitPlainText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const marker = (omitted: number) => `\n… [${omitted} of ${text.length} characters omitted; pass a larger max_chars to see more]`;
+  const room = Math.max(0, maxChars - marker(text.length).length);
+  const lineBreak = text.lastIndexOf("\n", room);
+  const cut = lineBreak > room / 2 ? lineBreak : room;
+  return `${text.slice(0, cut)}${marker(text.length - cut)}`;
+}
+
+/**
+ * Fit every text block of a response into the budget, giving each block
+ * what the blocks before it left over
+ */
+export function fitContent<T extends Content>(content: T, maxChars: number): T {
+  if (contentLength(content) <= maxChars) return content;
+  let remaining = maxChars;
+  return content.map(block => {
+    if (typeof block.text !== "string") return block;
+    const budget = Math.max(MIN_MAX_CHARS / 2, remaining);
+    const text = block.text.length <= budget ? block.text : fitJsonText(block.text, budget);
+    remaining = Math.max(0, remaining - text.length);
+    return { ...block, text };
+  }) as T;
+}
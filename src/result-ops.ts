@@ -0,0 +1,266 @@
+/**
+ * Local post-processing over stored result sets
+ *
+ * Projection, filtering, sorting, grouping and joining run in-process on rows
+ * a previous tool call already returned, so follow-up questions do not need a
+ * new round trip to the backend. Every operation takes and returns a Tabular
+ * and never mutates its input.
+ */
+
+import { Tabular } from "./formatters.js";
+
+export const FILTER_OPERATORS = [
+  "eq", "ne", "gt", "gte", "lt", "lte", "contains", "not_contains",
+  "in", "not_in", "is_null", "not_null",
+] as const;
+
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export interface FilterPredicate {
+  column: string;
+  op: FilterOperator;
+  value?: unknown;
+}
+
+export interface SortKey {
+  column: string;
+  direction?: "asc" | "desc";
+}
+
+export const AGGREGATE_OPERATORS = ["count", "count_distinct", "sum", "avg", "min", "max"] as const;
+
+export type AggregateOperator = typeof AGGREGATE_OPERATORS[number];
+
+export interface Aggregation {
+  op: AggregateOperator;
+  column?: string;
+  as?: string;
+}
+
+export interface JoinSpec {
+  left_key: string;
+  right_key: string;
+  type?: "inner" | "left";
+  right_prefix?: string;
+}
+
+/**
+ * Read a column value. Dotted names reach into nested objects
+ * (e.g. `metadata.contentSize`) when no top-level column has that name.
+ */
+export function getValue(row: Record<string, unknown>, column: string): unknown {
+  if (column in row) return row[column];
+  let value: unknown = row;
+  for (const part of column.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function assertColumns(table: Tabular, columns: string[]) {
+  for (const column of columns) {
+    const known = table.columns.includes(column) ||
+      (column.includes(".") && table.columns.includes(column.split(".")[0]));
+    if (!known) {
+      throw new Error(`Unknown column '${column}'. Available columns: ${table.columns.join(", ")}`);
+    }
+  }
+}
+
+function isNull(value: unknown) {
+  return value === null || value === undefined;
+}
+
+/**
+ * Total order used by sorting and comparison operators: numbers numerically,
+ * everything else by its string form
+ */
+function compare(a: unknown, b: unknown): number {
+  const na = typeof a === "number" ? a : typeof a === "string" && a.trim() !== "" ? Number(a) : NaN;
+  const nb = typeof b === "number" ? b : typeof b === "string" && b.trim() !== "" ? Number(b) : NaN;
+  if (!isNaN(na) && !isNaN(nb)) return na - nb;
+  const sa = typeof a === "object" ? JSON.stringify(a) : String(a);
+  const sb = typeof b === "object" ? JSON.stringify(b) : String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+function equals(a: unknown, b: unknown) {
+  if (isNull(a) || isNull(b)) return isNull(a) && isNull(b);
+  return compare(a, b) === 0;
+}
+
+/**
+ * Substring match for strings (case-insensitive), element match for arrays
+ * such as JSONB `variable_measured`
+ */
+function contains(haystack: unknown, needle: unknown): boolean {
+  if (isNull(haystack)) return false;
+  if (Array.isArray(haystack)) {
+    return haystack.some(item => equals(item, needle) || contains(item, needle));
+  }
+  const text = typeof haystack === "object" ? JSON.stringify(haystack) : String(haystack);
+  return text.toLowerCase().includes(String(needle).toLowerCase());
+}
+
+function matches(row: Record<string, unknown>, predicate: FilterPredicate): boolean {
+  const value = getValue(row, predicate.column);
+  switch (predicate.op) {
+    case "eq": return equals(value, predicate.value);
+    case "ne": return !equals(value, predicate.value);
+    case "gt": return !isNull(value) && compare(value, predicate.value) > 0;
+    case "gte": return !isNull(value) && compare(value, predicate.value) >= 0;
+    case "lt": return !isNull(value) && compare(value, predicate.value) < 0;
+    case "lte": return !isNull(value) && compare(value, predicate.value) <= 0;
+    case "contains": return contains(value, predicate.value);
+    case "not_contains": return !contains(value, predicate.value);
+    case "in": return Array.isArray(predicate.value) && predicate.value.some(v => equals(value, v));
+    case "not_in": return !Array.isArray(predicate.value) || !predicate.value.some(v => equals(value, v));
+    case "is_null": return isNull(value);
+    case "not_null": return !isNull(value);
+  }
+}
+
+/**
+ * Keep only the given columns, in the given order
+ */
+export function projectRows(table: Tabular, columns: string[]): Tabular {
+  assertColumns(table, columns);
+  return {
+    columns: [...columns],
+    rows: table.rows.map(row => Object.fromEntries(columns.map(c => [c, getValue(row, c) ?? null]))),
+  };
+}
+
+/**
+ * Keep rows matching all (or any) of the predicates
+ */
+export function filterRows(table: Tabular, predicates: FilterPredicate[], mode: "all" | "any" = "all"): Tabular {
+  assertColumns(table, predicates.map(p => p.column));
+  for (const predicate of predicates) {
+    if (!FILTER_OPERATORS.includes(predicate.op)) {
+      throw new Error(`Unknown filter operator '${predicate.op}'. Use one of: ${FILTER_OPERATORS.join(", ")}`);
+    }
+  }
+  return {
+    columns: table.columns,
+    rows: table.rows.filter(row => mode === "any"
+      ? predicates.some(p => matches(row, p))
+      : predicates.every(p => matches(row, p))),
+  };
+}
+
+/**
+ * Stable multi-key sort; NULLs sort last in either direction
+ */
+export function sortRows(table: Tabular, keys: SortKey[]): Tabular {
+  assertColumns(table, keys.map(k => k.column));
+  const rows = [...table.rows].sort((a, b) => {
+    for (const key of keys) {
+      const va = getValue(a, key.column);
+      const vb = getValue(b, key.column);
+      if (isNull(va) || isNull(vb)) {
+        if (isNull(va) && isNull(vb)) continue;
+        return isNull(va) ? 1 : -1;
+      }
+      const order = compare(va, vb);
+      if (order !== 0) return key.direction === "desc" ? -order : order;
+    }
+    return 0;
+  });
+  return { columns: table.columns, rows };
+}
+
+/**
+ * Group rows by the given columns and compute aggregates per group.
+ * Array-valued group keys are grouped by their JSON form.
+ */
+export function groupRows(table: Tabular, by: string[], aggregations: Aggregation[] = [{ op: "count" }]): Tabular {
+  assertColumns(table, [...by, ...aggregations.flatMap(a => a.column ? [a.column] : [])]);
+  for (const aggregation of aggregations) {
+    if (!AGGREGATE_OPERATORS.includes(aggregation.op)) {
+      throw new Error(`Unknown aggregate '${aggregation.op}'. Use one of: ${AGGREGATE_OPERATORS.join(", ")}`);
+    }
+    if (aggregation.op !== "count" && !aggregation.column) {
+      throw new Error(`Aggregate '${aggregation.op}' requires a column`);
+    }
+  }
+
+  const groups = new Map<string, Record<string, unknown>[]>();
+  for (const row of table.rows) {
+    const key = JSON.stringify(by.map(c => getValue(row, c) ?? null));
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+
+  const names = aggregations.map(a => a.as ?? (a.column ? `${a.op}_${a.column}` : a.op));
+  const rows = [...groups.entries()].map(([key, members]) => {
+    const out: Record<string, unknown> = {};
+    (JSON.parse(key) as unknown[]).forEach((value, index) => out[by[index]] = value);
+    aggregations.forEach((aggregation, index) => {
+      out[names[index]] = aggregate(members, aggregation);
+    });
+    return out;
+  });
+
+  return { columns: [...by, ...names], rows };
+}
+
+function aggregate(rows: Record<string, unknown>[], aggregation: Aggregation): unknown {
+  if (aggregation.op === "count" && !aggregation.column) return rows.length;
+
+  const values = rows.map(row => getValue(row, aggregation.column!)).filter(v => !isNull(v));
+  const numbers = values.map(Number).filter(n => !isNaN(n));
+
+  switch (aggregation.op) {
+    case "count": return values.length;
+    case "count_distinct": return new Set(values.map(v => JSON.stringify(v))).size;
+    case "sum": return numbers.reduce((total, n) => total + n, 0);
+    case "avg": return numbers.length ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    case "min": return values.length ? values.reduce((a, b) => compare(a, b) <= 0 ? a : b) : null;
+    case "max": return values.length ? values.reduce((a, b) => compare(a, b) >= 0 ? a : b) : null;
+  }
+}
+
+/**
+ * Hash join two result sets. Right-hand columns whose names collide with
+ * left-hand ones are prefixed with `right_prefix` (default `right_`).
+ */
+export function joinRows(left: Tabular, right: Tabular, spec: JoinSpec): Tabular {
+  assertColumns(left, [spec.left_key]);
+  assertColumns(right, [spec.right_key]);
+  const prefix = spec.right_prefix ?? "right_";
+
+  const rename = new Map(right.columns.map(c => [c, left.columns.includes(c) ? `${prefix}${c}` : c]));
+  const columns = [...left.columns, ...right.columns.map(c => rename.get(c)!)];
+
+  const index = new Map<string, Record<string, unknown>[]>();
+  for (const row of right.rows) {
+    const value = getValue(row, spec.right_key);
+    if (isNull(value)) continue;
+    const key = JSON.stringify(String(value));
+    const bucket = index.get(key);
+    if (bucket) bucket.push(row);
+    else index.set(key, [row]);
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  for (const row of left.rows) {
+    const value = getValue(row, spec.left_key);
+    const found = isNull(value) ? undefined : index.get(JSON.stringify(String(value)));
+    if (found) {
+      for (const match of found) {
+        const merged: Record<string, unknown> = { ...row };
+        for (const c of right.columns) merged[rename.get(c)!] = match[c];
+        rows.push(merged);
+      }
+    } else if (spec.type === "left") {
+      const merged: Record<string, unknown> = { ...row };
+      for (const c of right.columns) merged[rename.get(c)!] = null;
+      rows.push(merged);
+    }
+  }
+
+  return { columns, rows };
+}
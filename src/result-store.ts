@@ -0,0 +1,207 @@
+/**
+ * Bounded store for query result sets
+ *
+ * Every row-returning tool call saves its rows here under a generated id so
+ * the full result can be read back page by page as a `dandi://results/{id}`
+ * resource instead of being pushed through a single tool response. Entries
+ * are kept in memory (least recently used first out) and, when a directory is
+ * configured, mirrored to disk so they survive eviction and restarts. The
+ * directory is bounded too: each save removes the oldest files beyond
+ * `maxFiles` or `maxBytes`.
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Tabular } from "./formatters.js";
+
+export interface StoredResult extends Tabular {
+  id: string;
+  created_at: string;
+  tool: string;
+  params: unknown;
+  /** Total reported by the backend, which may exceed the stored rows */
+  total?: number;
+}
+
+export interface StoredResultSummary {
+  id: string;
+  created_at?: string;
+  tool?: string;
+  row_count?: number;
+}
+
+export interface ResultStoreOptions {
+  maxEntries: number;
+  maxRows: number;
+  directory?: string;
+  /** Most result files kept in `directory` */
+  maxFiles: number;
+  /** Most bytes of result files kept in `directory` */
+  maxBytes: number;
+}
+
+export interface ResultPage {
+  id: string;
+  tool: string;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  row_count: number;
+  total?: number;
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+const ID_PATTERN = /^[a-f0-9]{12}$/;
+
+export class ResultStore {
+  private entries = new Map<string, StoredResult>();
+  private rowCount = 0;
+
+  constructor(private options: ResultStoreOptions) {}
+
+  /**
+   * Save a result set and return the stored entry
+   */
+  async save(tool: string, params: unknown, table: Tabular, total?: number): Promise<StoredResult> {
+    const entry: StoredResult = {
+      id: randomBytes(6).toString("hex"),
+      created_at: new Date().toISOString(),
+      tool,
+      params,
+      total,
+      columns: table.columns,
+      rows: table.rows,
+    };
+
+    this.remember(entry);
+
+    if (this.options.directory) {
+      try {
+        await mkdir(this.options.directory, { recursive: true });
+        await writeFile(this.filePath(entry.id), JSON.stringify(entry));
+        await this.prune(entry.id);
+      } catch (error) {
+        console.warn(`Failed to persist result ${entry.id}:`, error);
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Look up a result set, falling back to the on-disk copy after eviction
+   */
+  async get(id: string): Promise<StoredResult | undefined> {
+    const cached = this.entries.get(id);
+    if (cached) {
+      // Refresh recency
+      this.entries.delete(id);
+      this.entries.set(id, cached);
+      return cached;
+    }
+
+    if (!this.options.directory || !ID_PATTERN.test(id)) return undefined;
+    try {
+      const entry = JSON.parse(await readFile(this.filePath(id), "utf8")) as StoredResult;
+      this.remember(entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read one page of a stored result set (pages are 1-based)
+   */
+  async page(id: string, page: number, pageSize: number): Promise<ResultPage | undefined> {
+    const entry = await this.get(id);
+    if (!entry) return undefined;
+
+    const totalPages = Math.max(1, Math.ceil(entry.rows.length / pageSize));
+    const start = (page - 1) * pageSize;
+    return {
+      id: entry.id,
+      tool: entry.tool,
+      page,
+      page_size: pageSize,
+      total_pages: totalPages,
+      row_count: entry.rows.length,
+      total: entry.total,
+      columns: entry.columns,
+      rows: entry.rows.slice(start, start + pageSize),
+    };
+  }
+
+  /**
+   * Summaries of every known result set, most recent first
+   */
+  async list(): Promise<StoredResultSummary[]> {
+    const summaries: StoredResultSummary[] = [...this.entries.values()].reverse().map(entry => ({
+      id: entry.id,
+      created_at: entry.created_at,
+      tool: entry.tool,
+      row_count: entry.rows.length,
+    }));
+
+    if (this.options.directory) {
+      try {
+        for (const file of await readdir(this.options.directory)) {
+          const id = file.replace(/\.json$/, "");
+          if (ID_PATTERN.test(id) && !this.entries.has(id)) summaries.push({ id });
+        }
+      } catch {
+        // Directory does not exist yet
+      }
+    }
+
+    return summaries;
+  }
+
+  private remember(entry: StoredResult) {
+    this.entries.set(entry.id, entry);
+    this.rowCount += entry.rows.length;
+
+    // Evict least recently used entries, always keeping the newest one
+    for (const [id, old] of this.entries) {
+      if (this.entries.size <= 1) break;
+      if (this.entries.size <= this.options.maxEntries && this.rowCount <= this.options.maxRows) break;
+      this.entries.delete(id);
+      this.rowCount -= old.rows.length;
+    }
+  }
+
+  /**
+   * Remove the oldest result files until the directory is within its limits,
+   * always keeping the file just written
+   */
+  private async prune(keep: string) {
+    const files: { id: string; size: number; mtime: number }[] = [];
+    for (const file of await readdir(this.options.directory!)) {
+      const id = file.replace(/\.json$/, "");
+      if (!ID_PATTERN.test(id) || !file.endsWith(".json")) continue;
+      try {
+        const info = await stat(this.filePath(id));
+        files.push({ id, size: info.size, mtime: info.mtimeMs });
+      } catch {
+        // Removed by a concurrent prune
+      }
+    }
+
+    files.sort((a, b) => a.mtime - b.mtime);
+    let count = files.length;
+    let bytes = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (count <= this.options.maxFiles && bytes <= this.options.maxBytes) break;
+      if (file.id === keep) continue;
+      await unlink(this.filePath(file.id)).catch(() => undefined);
+      count--;
+      bytes -= file.size;
+    }
+  }
+
+  private filePath(id: string) {
+    return join(this.options.directory!, `${id}.json`);
+  }
+}
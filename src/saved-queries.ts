@@ -0,0 +1,386 @@
+/**
+ * Saved, named queries with typed parameters
+ *
+ * A saved query is either SQL or a set of basic-search arguments containing
+ * `{{name}}` placeholders. Each placeholder is declared with a type, and
+ * binding renders a typed value: SQL strings become escaped literals,
+ * integers are checked digit strings, and so on. Values are never spliced in
+ * as raw text. Placeholders must stand on their own as SQL expressions (not
+ * inside a quoted literal or comment) and as whole search-argument values.
+ * Definitions live in a local JSON file.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { sqlString } from "./query-builder.js";
+
+export const SAVED_QUERY_KINDS = ["sql", "search_datasets", "search_assets"] as const;
+
+export type SavedQueryKind = typeof SAVED_QUERY_KINDS[number];
+
+export const PARAMETER_TYPES = ["string", "integer", "number", "boolean", "date", "string_list", "integer_list"] as const;
+
+export type ParameterType = typeof PARAMETER_TYPES[number];
+
+export interface ParameterDefinition {
+  name: string;
+  type: ParameterType;
+  description?: string;
+  /** Parameters with a default are optional */
+  default?: unknown;
+}
+
+export interface SavedQuery {
+  name: string;
+  description?: string;
+  kind: SavedQueryKind;
+  /** For kind "sql" */
+  sql?: string;
+  /** For the search kinds: tool arguments, where a value may be "{{param}}" */
+  arguments?: Record<string, unknown>;
+  parameters: ParameterDefinition[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedQueryInput = Omit<SavedQuery, "created_at" | "updated_at">;
+
+const NAME_PATTERN = /^[a-z][a-z0-9_-]{0,63}$/;
+const PARAMETER_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface PlaceholderMatch {
+  name: string;
+  start: number;
+  end: number;
+  /** Inside a string literal, quoted identifier or comment */
+  quoted: boolean;
+}
+
+/**
+ * Find `{{name}}` placeholders in SQL, noting which sit inside quoted text
+ * or comments (where binding would amount to string splicing)
+ */
+function scanPlaceholders(sql: string): PlaceholderMatch[] {
+  // Mark every character that is inside a literal, quoted identifier or comment
+  const quoted = new Uint8Array(sql.length);
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    let end = -1;
+    if (ch === "'" || ch === '"') {
+      end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === ch) {
+          if (sql[end + 1] === ch) end += 2;
+          else break;
+        } else end++;
+      }
+      end++;
+    } else if (ch === "-" && sql[i + 1] === "-") {
+      end = sql.indexOf("\n", i);
+      if (end < 0) end = sql.length;
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      end = sql.indexOf("*/", i + 2);
+      end = end < 0 ? sql.length : end + 2;
+    } else if (ch === "$") {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        end = close < 0 ? sql.length : close + tag[0].length;
+      }
+    }
+    if (end > i) {
+      quoted.fill(1, i, Math.min(end, sql.length));
+      i = end;
+    } else {
+      i++;
+    }
+  }
+
+  return [...sql.matchAll(PLACEHOLDER)].map(match => ({
+    name: match[1],
+    start: match.index!,
+    end: match.index! + match[0].length,
+    quoted: quoted[match.index!] === 1,
+  }));
+}
+
+/**
+ * Check a value against its declared type and return it normalized
+ */
+function coerceValue(definition: ParameterDefinition, value: unknown): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`Parameter '${definition.name}' must be ${expected} (got ${JSON.stringify(value)})`);
+  };
+  const asString = (v: unknown) => {
+    if (typeof v !== "string" || v.includes("\0")) fail("a string");
+    return v as string;
+  };
+  const asInteger = (v: unknown) => {
+    const n = typeof v === "string" && /^-?\d+$/.test(v.trim()) ? Number(v) : v;
+    if (typeof n !== "number" || !Number.isSafeInteger(n)) fail("an integer");
+    return n as number;
+  };
+  const asList = (v: unknown) => Array.isArray(v) ? v : [v];
+
+  switch (definition.type) {
+    case "string":
+      return asString(value);
+    case "integer":
+      return asInteger(value);
+    case "number": {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof n !== "number" || !Number.isFinite(n)) fail("a number");
+      return n;
+    }
+    case "boolean":
+      if (value === true || value === "true") return true;
+      if (value === false || value === "false") return false;
+      return fail("a boolean");
+    case "date":
+      if (typeof value !== "string" || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        fail("a date in YYYY-MM-DD form");
+      }
+      return value;
+    case "string_list":
+      return asList(value).map(asString);
+    case "integer_list":
+      return asList(value).map(asInteger);
+  }
+}
+
+// Negative numbers are parenthesized so `x -{{n}}` cannot become a `--` comment
+const numberLiteral = (value: number) => value < 0 ? `(${value})` : String(value);
+
+/**
+ * Render a typed value as a SQL expression
+ */
+export function toSqlLiteral(type: ParameterType, value: unknown): string {
+  switch (type) {
+    case "string":
+      return sqlString(value as string);
+    case "integer":
+    case "number":
+      return numberLiteral(value as number);
+    case "boolean":
+      return value ? "TRUE" : "FALSE";
+    case "date":
+      return `DATE ${sqlString(value as string)}`;
+    case "string_list":
+    case "integer_list": {
+      const items = value as unknown[];
+      // An empty list still has to be valid inside IN (...)
+      if (items.length === 0) return "NULL";
+      return items.map(item => type === "string_list" ? sqlString(item as string) : numberLiteral(item as number)).join(", ");
+    }
+  }
+}
+
+/**
+ * Validate a definition before saving: names, types, placeholder placement
+ * and agreement between declared and used parameters
+ */
+export function validateSavedQuery(input: SavedQueryInput) {
+  if (typeof input.name !== "string" || !NAME_PATTERN.test(input.name)) {
+    throw new Error("name must start with a lowercase letter and contain only a-z, 0-9, '_' or '-' (max 64 characters)");
+  }
+  if (!SAVED_QUERY_KINDS.includes(input.kind)) {
+    throw new Error(`kind must be one of: ${SAVED_QUERY_KINDS.join(", ")}`);
+  }
+
+  const parameters = input.parameters ?? [];
+  if (!Array.isArray(parameters)) throw new Error("parameters must be an array");
+  const declared = new Map<string, ParameterDefinition>();
+  for (const parameter of parameters) {
+    if (!PARAMETER_NAME_PATTERN.test(parameter?.name ?? "")) {
+      throw new Error(`Invalid parameter name '${parameter?.name}'`);
+    }
+    if (!PARAMETER_TYPES.includes(parameter.type)) {
+      throw new Error(`Parameter '${parameter.name}' type must be one of: ${PARAMETER_TYPES.join(", ")}`);
+    }
+    if (declared.has(parameter.name)) throw new Error(`Parameter '${parameter.name}' is declared twice`);
+    if (parameter.default !== undefined) coerceValue(parameter, parameter.default);
+    declared.set(parameter.name, parameter);
+  }
+
+  const used = new Set<string>();
+  if (input.kind === "sql") {
+    if (typeof input.sql !== "string" || !input.sql.trim()) throw new Error("sql is required for kind 'sql'");
+    if (input.arguments !== undefined) throw new Error("arguments only apply to search kinds");
+    for (const placeholder of scanPlaceholders(input.sql)) {
+      if (placeholder.quoted) {
+        throw new Error(
+          `Placeholder {{${placeholder.name}}} is inside a quoted string or comment; ` +
+          `use it as an expression instead, e.g. name ILIKE '%' || {{${placeholder.name}}} || '%'`
+        );
+      }
+      used.add(placeholder.name);
+    }
+  } else {
+    if (!input.arguments || typeof input.arguments !== "object" || Array.isArray(input.arguments)) {
+      throw new Error(`arguments are required for kind '${input.kind}'`);
+    }
+    if (input.sql !== undefined) throw new Error("sql only applies to kind 'sql'");
+    const visit = (value: unknown, path: string) => {
+      if (typeof value === "string") {
+        const whole = WHOLE_PLACEHOLDER.exec(value);
+        if (whole) used.add(whole[1]);
+        else if (/\{\{/.test(value)) {
+          throw new Error(`Argument '${path}' mixes a placeholder with text; a placeholder must be the whole value`);
+        }
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${path}[${index}]`));
+      }
+    };
+    for (const [key, value] of Object.entries(input.arguments)) visit(value, key);
+  }
+
+  for (const name of used) {
+    if (!declared.has(name)) throw new Error(`Placeholder {{${name}}} has no parameter definition`);
+  }
+  for (const name of declared.keys()) {
+    if (!used.has(name)) throw new Error(`Parameter '${name}' is declared but never used`);
+  }
+}
+
+/**
+ * Check supplied values against the definitions, applying defaults
+ */
+export function resolveParameters(query: SavedQuery, values: Record<string, unknown> = {}): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const name of Object.keys(values)) {
+    if (!query.parameters.some(p => p.name === name)) {
+      throw new Error(`Unknown parameter '${name}' for saved query '${query.name}'`);
+    }
+  }
+  for (const definition of query.parameters) {
+    const value = values[definition.name] ?? definition.default;
+    if (value === undefined) throw new Error(`Missing required parameter '${definition.name}'`);
+    resolved[definition.name] = coerceValue(definition, value);
+  }
+  return resolved;
+}
+
+/**
+ * SQL with every placeholder replaced by a typed literal
+ */
+export function bindSql(query: SavedQuery, values: Record<string, unknown>): string {
+  const sql = query.sql ?? "";
+  const types = new Map(query.parameters.map(p => [p.name, p.type]));
+  let bound = "";
+  let cursor = 0;
+  for (const placeholder of scanPlaceholders(sql)) {
+    bound += sql.slice(cursor, placeholder.start) + toSqlLiteral(types.get(placeholder.name)!, values[placeholder.name]);
+    cursor = placeholder.end;
+  }
+  return bound + sql.slice(cursor);
+}
+
+/**
+ * SQL with every placeholder replaced by NULL, for static analysis before
+ * any values are known
+ */
+export function sqlForAnalysis(sql: string): string {
+  let result = "";
+  let cursor = 0;
+  for (const placeholder of scanPlaceholders(sql)) {
+    result += `${sql.slice(cursor, placeholder.start)}NULL`;
+    cursor = placeholder.end;
+  }
+  return result + sql.slice(cursor);
+}
+
+/**
+ * Search arguments with every placeholder value replaced by its typed value.
+ * A list parameter inside an array argument is flattened into it.
+ */
+export function bindArguments(query: SavedQuery, values: Record<string, unknown>): Record<string, unknown> {
+  const substitute = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const whole = WHOLE_PLACEHOLDER.exec(value);
+      return whole ? values[whole[1]] : value;
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => {
+        const bound = substitute(item);
+        return Array.isArray(bound) ? bound : [bound];
+      });
+    }
+    return value;
+  };
+  return Object.fromEntries(Object.entries(query.arguments ?? {}).map(([key, value]) => [key, substitute(value)]));
+}
+
+/**
+ * Saved queries kept in one JSON file, read lazily and rewritten atomically
+ */
+export class SavedQueryStore {
+  private queries?: Map<string, SavedQuery>;
+
+  constructor(private filePath: string) {}
+
+  private async load(): Promise<Map<string, SavedQuery>> {
+    if (this.queries) return this.queries;
+    let parsed: { queries?: SavedQuery[] } = {};
+    try {
+      parsed = JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw new Error(`Failed to read saved queries from ${this.filePath}: ${error.message}`);
+    }
+    this.queries = new Map((parsed.queries ?? []).map(query => [query.name, query]));
+    return this.queries;
+  }
+
+  private async persist() {
+    const queries = [...(await this.load()).values()].sort((a, b) => a.name.localeCompare(b.name));
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify({ queries }, null, 2));
+    await rename(temporary, this.filePath);
+  }
+
+  async list(): Promise<SavedQuery[]> {
+    return [...(await this.load()).values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<SavedQuery | undefined> {
+    return (await this.load()).get(name);
+  }
+
+  /**
+   * Validate and store a definition; an existing name is only replaced when
+   * `overwrite` is set
+   */
+  async save(input: SavedQueryInput, overwrite = false): Promise<SavedQuery> {
+    validateSavedQuery(input);
+    const queries = await this.load();
+    const existing = queries.get(input.name);
+    if (existing && !overwrite) {
+      throw new Error(`A saved query named '${input.name}' already exists (pass overwrite: true to replace it)`);
+    }
+
+    const now = new Date().toISOString();
+    const query: SavedQuery = {
+      name: input.name,
+      description: input.description,
+      kind: input.kind,
+      ...(input.kind === "sql" ? { sql: input.sql } : { arguments: input.arguments }),
+      parameters: input.parameters ?? [],
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+    queries.set(query.name, query);
+    await this.persist();
+    return query;
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const queries = await this.load();
+    if (!queries.delete(name)) return false;
+    await this.persist();
+    return true;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Cached access to /api/sql/schema/
+ *
+ * The table list and per-table schemas change rarely, yet every SQL
+ * analysis, join-path search and full-schema request needs them. Responses
+ * are cached for a TTL, concurrent requests for the same key share one
+ * in-flight fetch, and full-schema retrieval fetches tables in parallel up to
+ * a concurrency limit.
+ */
+
+export interface SchemaCacheOptions {
+  ttlMs: number;
+  concurrency: number;
+}
+
+interface CacheEntry {
+  expires: number;
+  value: Promise<any>;
+}
+
+/**
+ * Promise cache with a fixed time-to-live. Concurrent loads of one key share
+ * the in-flight promise; failed loads are evicted immediately.
+ */
+export class TtlCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private ttlMs: number) {}
+
+  get<T>(key: string, load: () => Promise<T>, refresh = false): Promise<T> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    if (entry && !refresh && entry.expires > now) return entry.value;
+
+    const value = load();
+    this.entries.set(key, { expires: now + this.ttlMs, value });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) this.entries.delete(key);
+    });
+    return value;
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Run `task` over `items` with at most `limit` tasks in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+export class SchemaCache {
+  private cache: TtlCache;
+
+  /**
+   * @param fetchSchema Fetches the table list (no argument) or one table's schema
+   */
+  constructor(
+    private fetchSchema: (table?: string) => Promise<any>,
+    private options: SchemaCacheOptions
+  ) {
+    this.cache = new TtlCache(options.ttlMs);
+  }
+
+  /**
+   * The `/api/sql/schema/` response without a table (includes `allowed_tables`)
+   */
+  async getOverview(refresh = false): Promise<any> {
+    return this.cache.get("", () => this.fetchSchema(), refresh);
+  }
+
+  async getAllowedTables(refresh = false): Promise<string[]> {
+    const overview = await this.getOverview(refresh);
+    if (!Array.isArray(overview?.allowed_tables)) {
+      throw new Error("No table list found in schema response");
+    }
+    return overview.allowed_tables;
+  }
+
+  async getTable(table: string, refresh = false): Promise<any> {
+    return this.cache.get(`table:${table}`, () => this.fetchSchema(table), refresh);
+  }
+
+  /**
+   * Schema of every allowed table, keyed by table name. Tables that fail to
+   * load are reported inline rather than failing the whole request.
+   */
+  async getFullSchema(refresh = false): Promise<Record<string, any>> {
+    const tables = await this.getAllowedTables(refresh);
+    const schemas = await mapWithConcurrency(tables, this.options.concurrency, async table => {
+      try {
+        return await this.getTable(table, refresh);
+      } catch (tableError) {
+        console.warn(`Failed to get schema for table ${table}:`, tableError);
+        return { error: `Failed to fetch schema for ${table}` };
+      }
+    });
+    return Object.fromEntries(tables.map((table, index) => [table, schemas[index]]));
+  }
+
+  clear() {
+    this.cache.clear();
+  }
+}
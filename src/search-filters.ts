@@ -0,0 +1,229 @@
+/**
+ * Basic-search filters with explicit combining modes
+ *
+ * Every filter listed by /api/filter-options/ can be used on both search
+ * tools, each with a mode:
+ *
+ * - `any`: match at least one of the values (what the REST endpoints do)
+ * - `all`: match every value
+ * - `none`: match none of the values
+ *
+ * A value may stand for several alternatives after term resolution
+ * ("hippocampus" → the hippocampal formation and its sub-regions); a value
+ * matches when any of its alternatives does. The REST search endpoints only
+ * understand `any` over the filters they support, so other combinations are
+ * compiled to SQL over the same tables `build_query` uses.
+ */
+
+import { ilikeAny, sqlString } from "./query-builder.js";
+
+export const SEARCH_FILTERS = [
+  "species", "anatomy", "approach", "measurement_technique", "disorder", "sex", "session_type", "variable_measured",
+] as const;
+
+export type SearchFilter = typeof SEARCH_FILTERS[number];
+
+export const FILTER_MODES = ["any", "all", "none"] as const;
+
+export type FilterMode = typeof FILTER_MODES[number];
+
+export type SearchTool = "search_datasets" | "search_assets";
+
+export interface FilterCriterion {
+  filter: SearchFilter;
+  mode: FilterMode;
+  /** One entry per requested value, holding the alternatives it resolved to */
+  values: string[][];
+}
+
+export interface SearchScope {
+  name?: string;
+  description?: string;
+  dandiset_id?: number;
+  /** Raw participant age values to keep (assets only), from the age filter */
+  age_values?: string[];
+}
+
+export interface SqlSearchOptions extends SearchScope {
+  limit: number;
+  offset: number;
+}
+
+// Filters each REST endpoint accepts (always combined with "any")
+const REST_FILTERS: Record<SearchTool, readonly SearchFilter[]> = {
+  search_datasets: ["species", "anatomy", "approach", "measurement_technique"],
+  search_assets: ["species", "session_type", "variable_measured"],
+};
+
+/**
+ * Case-insensitive equality with any of the values, for vocabularies where
+ * one value contains another ("male" / "female")
+ */
+function equalsAny(expression: string, values: string[]): string {
+  return `LOWER(${expression}) IN (${values.map(value => sqlString(value.toLowerCase())).join(", ")})`;
+}
+
+/**
+ * Why a search cannot go through the REST endpoint; empty when it can
+ */
+export function sqlFallbackReasons(tool: SearchTool, criteria: FilterCriterion[]): string[] {
+  const reasons: string[] = [];
+  for (const criterion of criteria) {
+    if (!REST_FILTERS[tool].includes(criterion.filter)) {
+      reasons.push(`${criterion.filter} is not supported by the ${tool === "search_datasets" ? "dataset" : "asset"} search endpoint`);
+    } else if (criterion.mode === "none") {
+      reasons.push(`${criterion.filter} uses mode none`);
+    } else if (criterion.mode === "all" && criterion.values.length > 1) {
+      reasons.push(`${criterion.filter} uses mode all with ${criterion.values.length} values`);
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Condition that asset `a` (in dandiset `dandiset`) matches one of `values`
+ */
+function assetPredicate(filter: SearchFilter, values: string[], a: string, dandiset: string): string {
+  switch (filter) {
+    case "species":
+      return `EXISTS (
+      SELECT 1 FROM dandisets_assetwasattributedto awo
+      JOIN dandisets_participant p ON p.id = awo.participant_id
+      JOIN dandisets_speciestype st ON st.id = p.species_id
+      WHERE awo.asset_id = ${a}.id AND ${ilikeAny("st.name", values)}
+    )`;
+    case "sex":
+      return `EXISTS (
+      SELECT 1 FROM dandisets_assetwasattributedto awo
+      JOIN dandisets_participant p ON p.id = awo.participant_id
+      JOIN dandisets_sextype sx ON sx.id = p.sex_id
+      WHERE awo.asset_id = ${a}.id AND ${equalsAny("sx.name", values)}
+    )`;
+    case "approach":
+      return `EXISTS (
+      SELECT 1 FROM dandisets_assetapproach aap
+      JOIN dandisets_approachtype apt ON apt.id = aap.approach_id
+      WHERE aap.asset_id = ${a}.id AND ${ilikeAny("apt.name", values)}
+    )`;
+    case "measurement_technique":
+      return `EXISTS (
+      SELECT 1 FROM dandisets_assetmeasurementtechnique amt
+      JOIN dandisets_measurementtechniquetype mtt ON mtt.id = amt.measurement_technique_id
+      WHERE amt.asset_id = ${a}.id AND ${ilikeAny("mtt.name", values)}
+    )`;
+    case "variable_measured":
+      return ilikeAny(`${a}.variable_measured::text`, values);
+    case "session_type":
+      // Session modality is encoded in the file name, e.g. sub-1_ses-2_ecephys.nwb
+      return ilikeAny(`${a}.path`, values);
+    case "anatomy":
+    case "disorder":
+      return dandisetPredicate(filter, values, dandiset);
+  }
+}
+
+/**
+ * Condition for filters recorded per dandiset in dandisets_dandisetabout
+ */
+function dandisetPredicate(filter: "anatomy" | "disorder", values: string[], dandiset: string): string {
+  const [table, column] = filter === "anatomy" ? ["dandisets_anatomy", "anatomy_id"] : ["dandisets_disorder", "disorder_id"];
+  return `EXISTS (
+      SELECT 1 FROM dandisets_dandisetabout dab
+      JOIN ${table} ref ON ref.id = dab.${column}
+      WHERE dab.dandiset_id = ${dandiset} AND ${ilikeAny("ref.name", values)}
+    )`;
+}
+
+/**
+ * Condition that dandiset `d` matches one of `values`: directly for
+ * dandiset-level filters, otherwise through any of its assets
+ */
+function datasetPredicate(filter: SearchFilter, values: string[]): string {
+  if (filter === "anatomy" || filter === "disorder") return dandisetPredicate(filter, values, "d.id");
+  return `EXISTS (
+    SELECT 1 FROM dandisets_assetdandiset fad
+    JOIN dandisets_asset fa ON fa.id = fad.asset_id
+    WHERE fad.dandiset_id = d.id AND ${assetPredicate(filter, values, "fa", "fad.dandiset_id")}
+  )`;
+}
+
+/**
+ * Combine one criterion's values according to its mode
+ */
+function criterionCondition(criterion: FilterCriterion, predicate: (values: string[]) => string): string {
+  switch (criterion.mode) {
+    case "any":
+      return predicate(criterion.values.flat());
+    case "all":
+      return criterion.values.map(predicate).join("\n  AND ");
+    case "none":
+      return `NOT ${predicate(criterion.values.flat())}`;
+  }
+}
+
+/**
+ * FROM clause and WHERE conditions selecting the rows a search matches
+ */
+function matchClauses(tool: SearchTool, criteria: FilterCriterion[], scope: SearchScope): { from: string; conditions: string[] } {
+  const conditions: string[] = [];
+
+  if (tool === "search_datasets") {
+    if (scope.name) conditions.push(ilikeAny("d.name", [scope.name]));
+    if (scope.description) conditions.push(ilikeAny("d.description", [scope.description]));
+    for (const criterion of criteria) {
+      conditions.push(criterionCondition(criterion, values => datasetPredicate(criterion.filter, values)));
+    }
+    return { from: "FROM dandisets_dandiset d", conditions };
+  }
+
+  if (scope.dandiset_id !== undefined) conditions.push(`ad.dandiset_id = ${Math.floor(scope.dandiset_id)}`);
+  for (const criterion of criteria) {
+    conditions.push(criterionCondition(criterion, values => assetPredicate(criterion.filter, values, "a", "ad.dandiset_id")));
+  }
+  if (scope.age_values) {
+    conditions.push(scope.age_values.length
+      ? `EXISTS (
+      SELECT 1 FROM dandisets_assetwasattributedto awo
+      JOIN dandisets_participant p ON p.id = awo.participant_id
+      WHERE awo.asset_id = a.id AND p.age::text IN (${scope.age_values.map(sqlString).join(", ")})
+    )`
+      : "FALSE");
+  }
+  return { from: "FROM dandisets_asset a\nJOIN dandisets_assetdandiset ad ON ad.asset_id = a.id", conditions };
+}
+
+const whereClause = (conditions: string[]) => conditions.length ? `\nWHERE ${conditions.join("\n  AND ")}` : "";
+
+/**
+ * SQL for one page of a search plus a query counting every match
+ */
+export function buildSearchSql(tool: SearchTool, criteria: FilterCriterion[], options: SqlSearchOptions): { sql: string; countSql: string } {
+  const { from, conditions } = matchClauses(tool, criteria, options);
+  const [select, order] = tool === "search_datasets"
+    ? ["SELECT d.id, d.name, d.description", "d.id"]
+    : ["SELECT a.id, a.path, a.content_size, a.variable_measured, ad.dandiset_id", "a.id, ad.dandiset_id"];
+  const where = whereClause(conditions);
+  return {
+    sql: `${select}\n${from}${where}\nORDER BY ${order}\nLIMIT ${Math.floor(options.limit)} OFFSET ${Math.floor(options.offset)}`,
+    countSql: `SELECT COUNT(*) AS total\n${from}${where}`,
+  };
+}
+
+/**
+ * SELECT of every match without paging: `dandiset_id` for dataset
+ * searches, `asset_id` and `dandiset_id` for asset searches
+ */
+export function buildMatchSql(tool: SearchTool, criteria: FilterCriterion[], scope: SearchScope): string {
+  const { from, conditions } = matchClauses(tool, criteria, scope);
+  const select = tool === "search_datasets" ? "SELECT d.id AS dandiset_id" : "SELECT a.id AS asset_id, ad.dandiset_id";
+  return `${select}\n${from}${whereClause(conditions)}`;
+}
+
+/**
+ * Human-readable summary of the criteria, e.g. "species any of [mouse]; anatomy none of [CA1]"
+ */
+export function describeCriteria(criteria: FilterCriterion[]): string {
+  return criteria
+    .map(criterion => `${criterion.filter} ${criterion.mode} of [${criterion.values.map(values => values.join(" | ")).join(", ")}]`)
+    .join("; ");
+}
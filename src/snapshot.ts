@@ -0,0 +1,393 @@
+/**
+ * Offline snapshots of a dandi-sql backend
+ *
+ * `export-snapshot` copies every allowed table (as listed by
+ * /api/sql/schema/) into one local file, together with the schema and
+ * filter-option responses. A backend configured with a snapshot answers
+ * those endpoints, /api/sql/execute/ and /api/sql/validate/ from the file
+ * instead of the network: the tables are loaded into PGlite, an embedded
+ * PostgreSQL, so the SQL the tools generate runs unchanged. The search endpoints have no
+ * offline equivalent, so searches use the generated SQL path.
+ *
+ * File format (NDJSON, gzip-compressed when the name ends in `.gz`):
+ *
+ *     {"format":"dandi-snapshot","version":1,"created_at":"...","source":"https://...","overview":{...},"tables":{...}}
+ *     {"table":"dandisets_dandiset","rows":[{...}, ...]}
+ *     ...
+ *     {"end":true,"row_counts":{"dandisets_dandiset":812, ...}}
+ *
+ * A file without the final line is an interrupted export and is rejected.
+ */
+
+import { createReadStream, createWriteStream } from "node:fs";
+import { rename, unlink } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import { Readable, Writable } from "node:stream";
+import { finished } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import { PGlite } from "@electric-sql/pglite";
+import { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { findRowsKey, toTabular } from "./formatters.js";
+import { extractColumns } from "./join-graph.js";
+import { mapWithConcurrency } from "./schema-cache.js";
+
+const SNAPSHOT_FORMAT = "dandi-snapshot";
+const SNAPSHOT_VERSION = 1;
+// The execute endpoint returns at most 1000 rows per query
+export const DEFAULT_EXPORT_PAGE_SIZE = 1000;
+// Column types passed through to CREATE TABLE; anything else becomes text
+const SAFE_TYPE = /^[a-z][a-z0-9 _]*(\(\d+(,\s*\d+)?\))?(\[\])?$/i;
+
+export interface SnapshotHeader {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  created_at: string;
+  /** Base URL of the backend the snapshot was taken from */
+  source: string;
+  /** The /api/sql/schema/ response without a table */
+  overview: unknown;
+  /** Per-table /api/sql/schema/ responses */
+  tables: Record<string, unknown>;
+  /** The /api/filter-options/ response, when it could be fetched */
+  filter_options?: unknown;
+}
+
+export interface SnapshotInfo {
+  file: string;
+  source: string;
+  created_at: string;
+  age_seconds: number;
+  age: string;
+}
+
+export interface ExportOptions {
+  /** Tables to export (default: every allowed table) */
+  tables?: string[];
+  pageSize?: number;
+  concurrency?: number;
+  onProgress?: (table: string, rows: number) => void;
+}
+
+export interface ExportSummary {
+  file: string;
+  created_at: string;
+  row_counts: Record<string, number>;
+}
+
+const identifier = (name: string) => /^[a-z_][a-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Rows of an execute response as objects keyed by column name
+ */
+function responseRows(data: unknown): Record<string, unknown>[] {
+  const rowsKey = findRowsKey(data);
+  if (!rowsKey) throw new Error("No rows in execute response");
+  const response = data as Record<string, unknown>;
+  const columns = Array.isArray(response.columns)
+    ? response.columns.map((c: unknown) => typeof c === "string" ? c : (c as { name?: unknown } | null)?.name)
+    : undefined;
+  const rows = response[rowsKey] as unknown[];
+  return toTabular(rows, columns?.every((c): c is string => typeof c === "string") ? columns : undefined).rows;
+}
+
+/**
+ * A stable order for paging through a table: its id, or else every column
+ * that can be compared (json columns cannot)
+ */
+function pagingOrder(tableSchema: unknown): string {
+  const columns = extractColumns(tableSchema);
+  if (columns.some(column => column.name === "id")) return ` ORDER BY ${identifier("id")}`;
+  const comparable = columns.filter(column => !/^json/i.test(column.type ?? ""));
+  return comparable.length ? ` ORDER BY ${comparable.map(column => identifier(column.name)).join(", ")}` : "";
+}
+
+function openOutput(path: string, gzip: boolean): { stream: Writable; done: Promise<void>; abort: () => void } {
+  const file = createWriteStream(path);
+  const stream = gzip ? createGzip() : file;
+  if (stream !== file) stream.pipe(file);
+  const done = finished(file);
+  // Failures surface through the writes; `done` is awaited once writing ends
+  done.catch(() => undefined);
+  return { stream, done, abort: () => { stream.destroy(); file.destroy(); } };
+}
+
+function writeLine(stream: Writable, value: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(`${JSON.stringify(value)}\n`, error => error ? reject(error) : resolve());
+  });
+}
+
+/**
+ * Copy the allowed tables of the backend behind `client` into a snapshot
+ * file. The file is written under a temporary name and only renamed into
+ * place once every table has been copied.
+ */
+export async function exportSnapshot(client: AxiosInstance, source: string, path: string, options: ExportOptions = {}): Promise<ExportSummary> {
+  const pageSize = options.pageSize ?? DEFAULT_EXPORT_PAGE_SIZE;
+  const overview = (await client.get('/api/sql/schema/')).data;
+  const allowed: string[] = Array.isArray(overview?.allowed_tables) ? overview.allowed_tables : [];
+  if (allowed.length === 0) throw new Error("No table list found in schema response");
+  const unknown = (options.tables ?? []).filter(table => !allowed.includes(table));
+  if (unknown.length > 0) throw new Error(`Tables not allowed by the backend: ${unknown.join(", ")}`);
+  const tables = options.tables ?? allowed;
+
+  const schemas = await mapWithConcurrency(tables, options.concurrency ?? 4, async table =>
+    (await client.get('/api/sql/schema/', { params: { table } })).data);
+  let filterOptions: any;
+  try {
+    filterOptions = (await client.get('/api/filter-options/')).data;
+  } catch (error) {
+    console.warn('Filter options not included in snapshot:', error);
+  }
+
+  const header: SnapshotHeader = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    created_at: new Date().toISOString(),
+    source,
+    overview: { ...overview, allowed_tables: tables },
+    tables: Object.fromEntries(tables.map((table, index) => [table, schemas[index]])),
+    ...(filterOptions !== undefined && { filter_options: filterOptions }),
+  };
+
+  const partial = `${path}.partial`;
+  const output = openOutput(partial, path.endsWith(".gz"));
+  const rowCounts: Record<string, number> = {};
+  try {
+    await writeLine(output.stream, header);
+    for (const [index, table] of tables.entries()) {
+      const order = pagingOrder(schemas[index]);
+      rowCounts[table] = 0;
+      // Page until an empty page, in case the backend caps rows below pageSize
+      for (;;) {
+        const response = await client.post('/api/sql/execute/', {
+          sql: `SELECT * FROM ${identifier(table)}${order} LIMIT ${pageSize} OFFSET ${rowCounts[table]}`,
+        }, { idempotent: true });
+        const rows = responseRows(response.data);
+        if (rows.length === 0) break;
+        await writeLine(output.stream, { table, rows });
+        rowCounts[table] += rows.length;
+        options.onProgress?.(table, rowCounts[table]);
+      }
+    }
+    await writeLine(output.stream, { end: true, row_counts: rowCounts });
+    output.stream.end();
+    await output.done;
+  } catch (error) {
+    output.abort();
+    await output.done.catch(() => undefined);
+    await unlink(partial).catch(() => undefined);
+    throw error;
+  }
+  await rename(partial, path);
+  return { file: path, created_at: header.created_at, row_counts: rowCounts };
+}
+
+function snapshotLines(path: string) {
+  const file: Readable = createReadStream(path);
+  const input = path.endsWith(".gz") ? file.pipe(createGunzip()) : file;
+  file.on("error", error => input.destroy(error));
+  return createInterface({ input, crlfDelay: Infinity });
+}
+
+function checkHeader(path: string, line: string | undefined): SnapshotHeader {
+  let header: any;
+  try {
+    header = line ? JSON.parse(line) : undefined;
+  } catch {
+    header = undefined;
+  }
+  if (header?.format !== SNAPSHOT_FORMAT) throw new Error(`${path} is not a DANDI snapshot file`);
+  if (header.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot ${path} has format version ${header.version}; this server reads version ${SNAPSHOT_VERSION}`);
+  }
+  return header;
+}
+
+/**
+ * Column type for CREATE TABLE: the schema's type when it is a plain type
+ * name, otherwise guessed from the first non-null value
+ */
+function columnType(type: string | undefined, name: string, rows: Record<string, unknown>[]): string {
+  if (type && type.toUpperCase() !== "ARRAY" && SAFE_TYPE.test(type)) return type;
+  if (type?.toUpperCase() === "ARRAY") return "jsonb";
+  const value = rows.find(row => row[name] !== null && row[name] !== undefined)?.[name];
+  if (typeof value === "number") return Number.isInteger(value) ? "bigint" : "double precision";
+  if (typeof value === "boolean") return "boolean";
+  if (value && typeof value === "object") return "jsonb";
+  return "text";
+}
+
+function formatAge(ms: number): string {
+  const hours = ms / 3_600_000;
+  if (ms < 60_000) return "under a minute";
+  if (hours < 1) return `${Math.round(ms / 60_000)} minutes`;
+  if (hours < 48) return `${Math.round(hours)} hours`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * A snapshot file served as a backend. The header is read on first use;
+ * the tables are loaded into PGlite on the first SQL query.
+ */
+export class SnapshotEngine {
+  private header?: Promise<SnapshotHeader>;
+  private db?: Promise<PGlite>;
+
+  constructor(readonly path: string) {}
+
+  getHeader(): Promise<SnapshotHeader> {
+    this.header ??= (async () => {
+      const lines = snapshotLines(this.path);
+      try {
+        for await (const line of lines) return checkHeader(this.path, line);
+        return checkHeader(this.path, undefined);
+      } finally {
+        lines.close();
+      }
+    })();
+    this.header.catch(() => { this.header = undefined; });
+    return this.header;
+  }
+
+  async info(): Promise<SnapshotInfo> {
+    const header = await this.getHeader();
+    const ageMs = Date.now() - Date.parse(header.created_at);
+    return {
+      file: this.path,
+      source: header.source,
+      created_at: header.created_at,
+      age_seconds: Math.round(ageMs / 1000),
+      age: formatAge(ageMs),
+    };
+  }
+
+  private database(): Promise<PGlite> {
+    this.db ??= this.load();
+    this.db.catch(() => { this.db = undefined; });
+    return this.db;
+  }
+
+  private async load(): Promise<PGlite> {
+    const db = await PGlite.create();
+    const created = new Set<string>();
+    let header: SnapshotHeader | undefined;
+    let end: { row_counts: Record<string, number> } | undefined;
+    const loaded: Record<string, number> = {};
+
+    const createTable = async (table: string, rows: Record<string, unknown>[]) => {
+      const columns = extractColumns(header!.tables[table]);
+      const names = columns.length ? columns.map(column => column.name) : Object.keys(rows[0] ?? {});
+      const definitions = names.map(name =>
+        `${identifier(name)} ${columnType(columns.find(column => column.name === name)?.type, name, rows)}`);
+      await db.exec(`CREATE TABLE ${identifier(table)} (${definitions.join(", ")})`);
+      created.add(table);
+    };
+
+    for await (const line of snapshotLines(this.path)) {
+      if (!line.trim()) continue;
+      if (!header) {
+        header = checkHeader(this.path, line);
+        continue;
+      }
+      const entry = JSON.parse(line);
+      if (entry.end) {
+        end = entry;
+        break;
+      }
+      if (!header.tables[entry.table]) throw new Error(`Snapshot ${this.path} has rows for unknown table ${entry.table}`);
+      if (!created.has(entry.table)) await createTable(entry.table, entry.rows);
+      await db.query(
+        `INSERT INTO ${identifier(entry.table)} SELECT * FROM json_populate_recordset(NULL::${identifier(entry.table)}, $1::json)`,
+        [JSON.stringify(entry.rows)]
+      );
+      loaded[entry.table] = (loaded[entry.table] ?? 0) + entry.rows.length;
+    }
+
+    if (!header || !end) throw new Error(`Snapshot ${this.path} is incomplete (the export was interrupted)`);
+    for (const table of Object.keys(header.tables)) {
+      if (!created.has(table)) await createTable(table, []);
+      if ((loaded[table] ?? 0) !== (end.row_counts[table] ?? 0)) {
+        throw new Error(`Snapshot ${this.path} lists ${end.row_counts[table]} rows for ${table} but contains ${loaded[table] ?? 0}`);
+      }
+    }
+    // Planner statistics, so EXPLAIN costs resemble the backend's
+    await db.exec("ANALYZE");
+    await db.exec("SET default_transaction_read_only = on");
+    return db;
+  }
+
+  /**
+   * Run one SQL statement against the snapshot tables (read-only)
+   */
+  async query(sql: string): Promise<{ columns: string[]; rows: Record<string, unknown>[] }> {
+    const result = await (await this.database()).query<Record<string, unknown>>(sql);
+    return { columns: result.fields.map(field => field.name), rows: result.rows };
+  }
+
+  /**
+   * Axios adapter answering the backend endpoints the snapshot covers
+   */
+  readonly adapter: AxiosAdapter = async (config) => {
+    const url = new URL(config.url ?? "", "http://snapshot");
+    const params = { ...Object.fromEntries(url.searchParams), ...config.params };
+    const method = (config.method ?? "get").toLowerCase();
+
+    if (method === "get" && url.pathname === "/api/sql/schema/") {
+      const header = await this.getHeader();
+      if (!params.table) return adapterResponse(config, 200, header.overview);
+      const schema = header.tables[params.table];
+      return schema
+        ? adapterResponse(config, 200, schema)
+        : adapterResponse(config, 404, { error: `Table '${params.table}' is not in the snapshot` });
+    }
+
+    if (method === "get" && url.pathname === "/api/filter-options/") {
+      const header = await this.getHeader();
+      return header.filter_options !== undefined
+        ? adapterResponse(config, 200, header.filter_options)
+        : adapterResponse(config, 404, { error: "The snapshot has no filter options" });
+    }
+
+    if (method === "post" && (url.pathname === "/api/sql/execute/" || url.pathname === "/api/sql/validate/")) {
+      const body = typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+      if (typeof body?.sql !== "string") return adapterResponse(config, 400, { success: false, error: "No SQL given" });
+      const validate = url.pathname === "/api/sql/validate/";
+      let result;
+      try {
+        // Planning a statement checks it against the tables without running it
+        result = await this.query(validate ? `EXPLAIN ${body.sql}` : body.sql);
+      } catch (error: any) {
+        // Database errors (with a SQLSTATE) are the query's fault; anything else is ours
+        if (!(error?.severity && error?.code)) throw error;
+        return validate
+          ? adapterResponse(config, 200, { valid: false, error: error.message })
+          : adapterResponse(config, 400, { success: false, error: error.message });
+      }
+      return validate
+        ? adapterResponse(config, 200, { valid: true })
+        : adapterResponse(config, 200, { success: true, columns: result.columns, results: result.rows, row_count: result.rows.length });
+    }
+
+    return adapterResponse(config, 404, { error: `${method.toUpperCase()} ${url.pathname} is not available in offline snapshot mode` });
+  };
+}
+
+/**
+ * Resolve with a response, or reject with an AxiosError as the HTTP adapter
+ * would for an error status. Shared by the adapters that stand in for the
+ * network.
+ */
+export function adapterResponse(
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown,
+  headers: Record<string, string> = {}
+): AxiosResponse {
+  const response: AxiosResponse = { data, status, statusText: String(status), headers, config, request: {} };
+  if (status >= 400) {
+    const code = status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${status}`, code, config, {}, response);
+  }
+  return response;
+}
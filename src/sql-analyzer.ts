@@ -0,0 +1,620 @@
+/**
+ * Client-side SQL safety analyzer
+ *
+ * Tokenizes a query and walks it once to catch problems before it is sent to
+ * /api/sql/execute/. The backend remains the authority; this pass exists to
+ * reject obviously unsafe statements early and to give line/column
+ * diagnostics for common mistakes.
+ */
+
+export const MAX_SQL_LENGTH = 10000;
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface SqlDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface SqlAnalysis {
+  valid: boolean;
+  statement_type?: "SELECT" | "WITH";
+  tables: string[];
+  diagnostics: SqlDiagnostic[];
+  summary: {
+    errors: number;
+    warnings: number;
+  };
+}
+
+export interface SqlAnalyzerOptions {
+  /**
+   * Tables the backend allows queries against. When omitted the table check
+   * is skipped and a warning is reported instead.
+   */
+  allowedTables?: string[];
+}
+
+type TokenType = "word" | "quoted_ident" | "string" | "number" | "punct";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  offset: number;
+}
+
+// Statements that modify data; PostgreSQL also accepts them inside WITH, so
+// they are rejected wherever they appear as a keyword
+const DATA_MODIFYING_KEYWORDS = new Set(["INSERT", "UPDATE", "DELETE", "MERGE", "UPSERT"]);
+
+// Statements that change schema or server state. They can only start a
+// statement, and several (COMMENT, LOCK, RESET, ...) double as column names,
+// so only a statement's leading keyword is checked against them.
+const FORBIDDEN_KEYWORDS = new Set([
+  "DROP", "ALTER", "CREATE", "TRUNCATE", "GRANT", "REVOKE", "COPY", "VACUUM",
+  "CALL", "DO", "LOCK", "REINDEX", "CLUSTER", "REFRESH", "COMMENT", "LISTEN",
+  "NOTIFY", "PREPARE", "EXECUTE", "DEALLOCATE", "DISCARD", "IMPORT", "SECURITY",
+  "RESET",
+]);
+
+// Functions with side effects or access outside the DANDI tables
+const DANGEROUS_FUNCTIONS = new Set([
+  "pg_sleep", "pg_read_file", "pg_read_binary_file", "pg_ls_dir", "pg_stat_file",
+  "lo_import", "lo_export", "dblink", "dblink_exec", "pg_terminate_backend",
+  "pg_cancel_backend", "set_config", "pg_reload_conf", "pg_rotate_logfile",
+  "query_to_xml", "pg_advisory_lock",
+]);
+
+const AGGREGATE_FUNCTIONS = new Set([
+  "count", "sum", "avg", "min", "max", "array_agg", "string_agg", "json_agg",
+  "jsonb_agg", "json_object_agg", "jsonb_object_agg", "bool_and", "bool_or",
+  "every", "stddev", "stddev_pop", "stddev_samp", "variance", "var_pop",
+  "var_samp", "percentile_cont", "percentile_disc", "mode",
+]);
+
+// Keywords that end the FROM list of the current SELECT
+const FROM_TERMINATORS = new Set([
+  "WHERE", "GROUP", "HAVING", "ORDER", "WINDOW", "LIMIT", "OFFSET", "FETCH",
+  "FOR", "UNION", "INTERSECT", "EXCEPT", "RETURNING",
+]);
+
+const SET_OPERATORS = new Set(["UNION", "INTERSECT", "EXCEPT"]);
+
+/**
+ * Tracks the state of one SELECT scope; every parenthesis opens a new frame
+ */
+interface Frame {
+  hasSelect: boolean;
+  inFrom: boolean;
+  expectTable: boolean;
+  fromItems: number;
+  /** Names and aliases of the FROM items seen so far, lower-cased */
+  fromNames: string[];
+  fromToken?: Token;
+  hasWhere: boolean;
+  hasLimit: boolean;
+  hasGroupBy: boolean;
+  hasAggregate: boolean;
+  pendingJoin?: Token;
+}
+
+function newFrame(): Frame {
+  return {
+    hasSelect: false,
+    inFrom: false,
+    expectTable: false,
+    fromItems: 0,
+    fromNames: [],
+    hasWhere: false,
+    hasLimit: false,
+    hasGroupBy: false,
+    hasAggregate: false,
+  };
+}
+
+class SqlAnalyzer {
+  private diagnostics: SqlDiagnostic[] = [];
+  private lineStarts: number[] = [0];
+
+  constructor(private sql: string, private options: SqlAnalyzerOptions) {
+    for (let i = 0; i < sql.length; i++) {
+      if (sql[i] === "\n") this.lineStarts.push(i + 1);
+    }
+  }
+
+  analyze(): SqlAnalysis {
+    const tables: { name: string; token: Token }[] = [];
+    let statementType: SqlAnalysis["statement_type"];
+
+    if (this.sql.trim().length === 0) {
+      this.report("error", "EMPTY_QUERY", "Query is empty", 0);
+      return this.result(statementType, []);
+    }
+
+    if (this.sql.length > MAX_SQL_LENGTH) {
+      this.report(
+        "error",
+        "QUERY_TOO_LONG",
+        `Query is ${this.sql.length} characters; the maximum is ${MAX_SQL_LENGTH}`,
+        MAX_SQL_LENGTH
+      );
+    }
+
+    const tokens = this.tokenize();
+    if (tokens.length === 0) {
+      this.report("error", "EMPTY_QUERY", "Query contains only comments", 0);
+      return this.result(statementType, []);
+    }
+
+    // Leading parentheses are allowed around a SELECT
+    const first = tokens.find(t => !(t.type === "punct" && t.value === "("));
+    const firstKeyword = first?.type === "word" ? first.value.toUpperCase() : undefined;
+    if (firstKeyword === "SELECT" || firstKeyword === "WITH") {
+      statementType = firstKeyword;
+    } else {
+      this.report(
+        "error",
+        "NOT_READ_ONLY",
+        `Only SELECT or WITH statements are allowed, found ${first ? `'${first.value}'` : "no statement"}`,
+        first?.offset ?? 0
+      );
+    }
+
+    const cteNames = this.collectCteNames(tokens);
+    const stack: Frame[] = [newFrame()];
+    const top = () => stack[stack.length - 1];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const next = tokens[i + 1];
+      const frame = top();
+
+      if (token.type === "punct") {
+        switch (token.value) {
+          case "(":
+            // Derived table: the subquery takes the place of a table name
+            if (frame.expectTable) frame.expectTable = false;
+            stack.push(newFrame());
+            break;
+          case ")":
+            if (stack.length === 1) {
+              this.report("error", "UNBALANCED_PARENS", "Unmatched closing parenthesis", token.offset);
+            } else {
+              this.endSelect(frame);
+              stack.pop();
+            }
+            break;
+          case ",":
+            if (frame.inFrom) {
+              frame.expectTable = true;
+              frame.fromItems++;
+            }
+            break;
+          case ";":
+            if (tokens.slice(i + 1).some(t => !(t.type === "punct" && t.value === ";"))) {
+              this.report("error", "MULTIPLE_STATEMENTS", "Only a single statement is allowed", token.offset);
+              i = tokens.length;
+            }
+            break;
+        }
+        continue;
+      }
+
+      if (frame.expectTable && (token.type === "word" || token.type === "quoted_ident")) {
+        const upper = token.value.toUpperCase();
+        if (token.type === "word" && (upper === "LATERAL" || upper === "ONLY")) continue;
+
+        // Collect a possibly schema-qualified name
+        const start = i;
+        let name = token.value;
+        let j = i;
+        while (tokens[j + 1]?.value === "." && tokens[j + 2] &&
+          (tokens[j + 2].type === "word" || tokens[j + 2].type === "quoted_ident")) {
+          name += `.${tokens[j + 2].value}`;
+          j += 2;
+        }
+        i = j;
+        frame.expectTable = false;
+
+        // Set-returning functions such as jsonb_array_elements(...) are not tables
+        if (tokens[j + 1]?.value !== "(") {
+          tables.push({ name, token });
+          frame.fromNames.push(name.toLowerCase().split(".").pop()!, ...this.aliasAt(tokens, j + 1));
+        } else {
+          this.checkFunction(tokens[j]);
+          const end = this.skipParens(tokens, j + 1);
+          // A comma-joined function is implicitly LATERAL; one that reads an
+          // earlier FROM item (a, jsonb_array_elements(a.x)) is not a cartesian product
+          const before = tokens[start - 1]?.value.toUpperCase() === "LATERAL" ? tokens[start - 2] : tokens[start - 1];
+          const qualifiers = tokens.slice(j + 2, end - 1)
+            .filter((t, k, args) => t.type !== "punct" && t.type !== "string" && args[k + 1]?.value === ".")
+            .map(t => t.value.toLowerCase());
+          if (before?.value === "," && qualifiers.some(q => frame.fromNames.includes(q))) frame.fromItems--;
+          frame.fromNames.push(...this.aliasAt(tokens, end));
+        }
+        continue;
+      }
+
+      const isCall = next?.type === "punct" && next.value === "(";
+      if (isCall && (token.type === "word" || token.type === "quoted_ident") && this.checkFunction(token)) continue;
+
+      if (token.type !== "word") continue;
+
+      const keyword = token.value.toUpperCase();
+      const lower = token.value.toLowerCase();
+
+      // Qualified names (x.comment, lock.id) and aliases (AS lock) are identifiers
+      const previous = tokens[i - 1];
+      const isIdentifier = previous?.value === "." || next?.value === "." ||
+        (previous?.type === "word" && previous.value.toUpperCase() === "AS");
+      if (
+        !isIdentifier &&
+        (DATA_MODIFYING_KEYWORDS.has(keyword) || (token === first && FORBIDDEN_KEYWORDS.has(keyword)))
+      ) {
+        this.report(
+          "error",
+          "FORBIDDEN_KEYWORD",
+          `'${keyword}' is not allowed; queries must be read-only`,
+          token.offset
+        );
+        continue;
+      }
+
+      if (FROM_TERMINATORS.has(keyword)) {
+        frame.inFrom = false;
+        frame.expectTable = false;
+        this.flushJoin(frame);
+      }
+
+      switch (keyword) {
+        case "SELECT":
+          frame.hasSelect = true;
+          break;
+        case "FROM":
+          // FROM inside EXTRACT(... FROM ...) or SUBSTRING(... FROM ...) has no SELECT in scope
+          if (frame.hasSelect) {
+            frame.inFrom = true;
+            frame.expectTable = true;
+            frame.fromItems = 1;
+            frame.fromNames = [];
+            frame.fromToken = token;
+          }
+          break;
+        case "JOIN": {
+          this.flushJoin(frame);
+          const modifiers = tokens.slice(Math.max(0, i - 3), i).map(t => t.value.toUpperCase());
+          if (modifiers.includes("CROSS")) {
+            this.report(
+              "warning",
+              "CARTESIAN_JOIN",
+              "CROSS JOIN produces a cartesian product of both tables",
+              token.offset
+            );
+          } else if (!modifiers.includes("NATURAL")) {
+            frame.pendingJoin = token;
+          }
+          frame.inFrom = true;
+          frame.expectTable = true;
+          break;
+        }
+        case "ON":
+        case "USING":
+          frame.pendingJoin = undefined;
+          break;
+        case "WHERE":
+          frame.hasWhere = true;
+          break;
+        case "GROUP":
+          if (next?.value.toUpperCase() === "BY") frame.hasGroupBy = true;
+          break;
+        case "LIMIT":
+        case "FETCH":
+          frame.hasLimit = true;
+          break;
+        case "FOR": {
+          const lockMode = next?.value.toUpperCase();
+          if (lockMode === "SHARE" || lockMode === "NO" || lockMode === "KEY") {
+            this.report("error", "ROW_LOCKING", "Row-locking clauses (FOR SHARE/UPDATE) are not allowed", token.offset);
+          }
+          break;
+        }
+        case "INTO":
+          if (frame.hasSelect) {
+            this.report("error", "SELECT_INTO", "SELECT ... INTO creates a table and is not allowed", token.offset);
+          }
+          break;
+      }
+
+      if (SET_OPERATORS.has(keyword)) {
+        // Each branch of a set operation is checked on its own
+        this.endSelect(frame);
+        frame.hasSelect = false;
+        frame.hasWhere = false;
+        frame.fromItems = 0;
+      }
+
+      if (isCall && stack.length === 1 && AGGREGATE_FUNCTIONS.has(lower)) {
+        frame.hasAggregate = true;
+      }
+    }
+
+    if (stack.length > 1) {
+      this.report("error", "UNBALANCED_PARENS", "Unclosed parenthesis", this.sql.length);
+    }
+
+    const root = stack[0];
+    this.endSelect(root);
+
+    if (statementType && root.fromToken && !root.hasLimit && !root.hasGroupBy && !root.hasAggregate) {
+      this.report(
+        "warning",
+        "MISSING_LIMIT",
+        "Unaggregated query has no LIMIT; the backend truncates results at 1000 rows",
+        tokens[tokens.length - 1].offset
+      );
+    }
+
+    // Table allow-list
+    const referenced: string[] = [];
+    const allowed = this.options.allowedTables
+      ? new Set(this.options.allowedTables.map(t => t.toLowerCase()))
+      : undefined;
+    for (const { name, token } of tables) {
+      const normalized = name.toLowerCase().replace(/^public\./, "");
+      if (cteNames.has(normalized)) continue;
+      if (!referenced.includes(normalized)) referenced.push(normalized);
+      if (allowed && !allowed.has(normalized)) {
+        this.report("error", "UNKNOWN_TABLE", `Table '${name}' is not in the list of allowed tables`, token.offset);
+      }
+    }
+    if (!allowed && referenced.length > 0) {
+      this.report(
+        "warning",
+        "TABLES_UNVERIFIED",
+        "Could not load the allowed table list; table names were not checked",
+        0
+      );
+    }
+
+    return this.result(statementType, referenced);
+  }
+
+  /**
+   * Names defined by WITH clauses, which may be referenced like tables
+   */
+  private collectCteNames(tokens: Token[]): Set<string> {
+    const names = new Set<string>();
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i].type !== "word" || tokens[i].value.toUpperCase() !== "WITH") continue;
+      let j = i + 1;
+      if (tokens[j]?.value.toUpperCase() === "RECURSIVE") j++;
+
+      while (tokens[j] && (tokens[j].type === "word" || tokens[j].type === "quoted_ident")) {
+        names.add(tokens[j].value.toLowerCase());
+        j++;
+        // Optional column list
+        if (tokens[j]?.value === "(") j = this.skipParens(tokens, j);
+        if (tokens[j]?.value.toUpperCase() !== "AS") break;
+        j++;
+        while (tokens[j] && ["NOT", "MATERIALIZED"].includes(tokens[j].value.toUpperCase())) j++;
+        if (tokens[j]?.value !== "(") break;
+        j = this.skipParens(tokens, j);
+        if (tokens[j]?.value !== ",") break;
+        j++;
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Report a call to a function with side effects; quoted names ("pg_sleep")
+   * are compared without their quotes. Returns whether one was reported.
+   */
+  private checkFunction(token: Token): boolean {
+    if (!DANGEROUS_FUNCTIONS.has(token.value.toLowerCase())) return false;
+    this.report("error", "DANGEROUS_FUNCTION", `Function '${token.value}' is not allowed`, token.offset);
+    return true;
+  }
+
+  /**
+   * Alias following a FROM item at `index`, with or without AS
+   */
+  private aliasAt(tokens: Token[], index: number): string[] {
+    const token = tokens[index]?.value.toUpperCase() === "AS" ? tokens[index + 1] : tokens[index];
+    return token && (token.type === "word" || token.type === "quoted_ident") ? [token.value.toLowerCase()] : [];
+  }
+
+  /**
+   * Index of the token after the parenthesised group starting at `start`
+   */
+  private skipParens(tokens: Token[], start: number): number {
+    let depth = 0;
+    let j = start;
+    while (j < tokens.length) {
+      if (tokens[j].value === "(") depth++;
+      if (tokens[j].value === ")") depth--;
+      j++;
+      if (depth === 0) break;
+    }
+    return j;
+  }
+
+  /**
+   * Report join problems for a SELECT scope that has ended
+   */
+  private endSelect(frame: Frame) {
+    this.flushJoin(frame);
+    if (frame.fromItems > 1 && !frame.hasWhere && frame.fromToken) {
+      this.report(
+        "warning",
+        "CARTESIAN_JOIN",
+        "Comma-separated FROM list without a WHERE clause produces a cartesian product",
+        frame.fromToken.offset
+      );
+    }
+    frame.fromItems = 0;
+  }
+
+  private flushJoin(frame: Frame) {
+    if (frame.pendingJoin) {
+      this.report(
+        "warning",
+        "JOIN_WITHOUT_CONDITION",
+        "JOIN has no ON or USING clause",
+        frame.pendingJoin.offset
+      );
+      frame.pendingJoin = undefined;
+    }
+  }
+
+  private tokenize(): Token[] {
+    const sql = this.sql;
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < sql.length) {
+      const ch = sql[i];
+
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+
+      // Line comment
+      if (ch === "-" && sql[i + 1] === "-") {
+        while (i < sql.length && sql[i] !== "\n") i++;
+        continue;
+      }
+
+      // Block comment (PostgreSQL allows nesting)
+      if (ch === "/" && sql[i + 1] === "*") {
+        const start = i;
+        let depth = 0;
+        while (i < sql.length) {
+          if (sql[i] === "/" && sql[i + 1] === "*") {
+            depth++;
+            i += 2;
+          } else if (sql[i] === "*" && sql[i + 1] === "/") {
+            depth--;
+            i += 2;
+            if (depth === 0) break;
+          } else {
+            i++;
+          }
+        }
+        if (depth > 0) this.report("error", "UNTERMINATED_COMMENT", "Unterminated block comment", start);
+        continue;
+      }
+
+      if (ch === "'") {
+        const start = i;
+        i++;
+        let closed = false;
+        while (i < sql.length) {
+          if (sql[i] === "'") {
+            if (sql[i + 1] === "'") {
+              i += 2;
+              continue;
+            }
+            closed = true;
+            i++;
+            break;
+          }
+          i++;
+        }
+        if (!closed) this.report("error", "UNTERMINATED_STRING", "Unterminated string literal", start);
+        tokens.push({ type: "string", value: sql.slice(start, i), offset: start });
+        continue;
+      }
+
+      if (ch === '"') {
+        const start = i;
+        const end = sql.indexOf('"', i + 1);
+        if (end === -1) {
+          this.report("error", "UNTERMINATED_IDENTIFIER", "Unterminated quoted identifier", start);
+          i = sql.length;
+          continue;
+        }
+        tokens.push({ type: "quoted_ident", value: sql.slice(start + 1, end), offset: start });
+        i = end + 1;
+        continue;
+      }
+
+      // Dollar-quoted string: $tag$ ... $tag$
+      if (ch === "$") {
+        const tagMatch = /^\$[A-Za-z_]*\$/.exec(sql.slice(i));
+        if (tagMatch) {
+          const start = i;
+          const tag = tagMatch[0];
+          const end = sql.indexOf(tag, i + tag.length);
+          if (end === -1) {
+            this.report("error", "UNTERMINATED_STRING", "Unterminated dollar-quoted string", start);
+            i = sql.length;
+          } else {
+            i = end + tag.length;
+          }
+          tokens.push({ type: "string", value: sql.slice(start, i), offset: start });
+          continue;
+        }
+      }
+
+      if (/[A-Za-z_]/.test(ch)) {
+        const start = i;
+        while (i < sql.length && /[A-Za-z0-9_$]/.test(sql[i])) i++;
+        tokens.push({ type: "word", value: sql.slice(start, i), offset: start });
+        continue;
+      }
+
+      if (/[0-9]/.test(ch)) {
+        const start = i;
+        while (i < sql.length && /[0-9.eE]/.test(sql[i])) i++;
+        tokens.push({ type: "number", value: sql.slice(start, i), offset: start });
+        continue;
+      }
+
+      tokens.push({ type: "punct", value: ch, offset: i });
+      i++;
+    }
+
+    return tokens;
+  }
+
+  private report(severity: DiagnosticSeverity, code: string, message: string, offset: number) {
+    const { line, column } = this.position(offset);
+    this.diagnostics.push({ severity, code, message, line, column });
+  }
+
+  /**
+   * Convert a character offset into a 1-based line and column
+   */
+  private position(offset: number) {
+    let line = 0;
+    while (line + 1 < this.lineStarts.length && this.lineStarts[line + 1] <= offset) line++;
+    return { line: line + 1, column: offset - this.lineStarts[line] + 1 };
+  }
+
+  private result(statementType: SqlAnalysis["statement_type"], tables: string[]): SqlAnalysis {
+    const errors = this.diagnostics.filter(d => d.severity === "error").length;
+    const sorted = [...this.diagnostics].sort((a, b) => a.line - b.line || a.column - b.column);
+    return {
+      valid: errors === 0,
+      statement_type: statementType,
+      tables,
+      diagnostics: sorted,
+      summary: {
+        errors,
+        warnings: sorted.length - errors,
+      },
+    };
+  }
+}
+
+/**
+ * Analyze a SQL query for safety and common mistakes without executing it
+ */
+export function analyzeSql(sql: string, options: SqlAnalyzerOptions = {}): SqlAnalysis {
+  return new SqlAnalyzer(sql, options).analyze();
+}
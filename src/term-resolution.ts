@@ -0,0 +1,389 @@
+/**
+ * Resolve user-supplied filter terms to canonical filter values
+ *
+ * The search endpoints only match the values listed by /api/filter-options/,
+ * so "mouse", "CA1" or "ephys" find nothing. Each term is resolved against
+ * the live options, trying in order:
+ *
+ * 1. an exact (case- and punctuation-insensitive) match on name or identifier
+ * 2. the bundled synonym table (common names, abbreviations)
+ * 3. options containing the term
+ * 4. for anatomy, the regions below a matched region, or the regions above
+ *    a known sub-region that has no option of its own
+ * 5. fuzzy matching for misspellings
+ *
+ * A term that cannot be resolved is passed through unchanged.
+ */
+
+import { optionLabel } from "./live-docs.js";
+
+export const RESOLVABLE_FILTERS = ["species", "anatomy", "approach", "measurement_technique", "disorder", "sex"] as const;
+
+export type ResolvableFilter = typeof RESOLVABLE_FILTERS[number];
+
+export type ResolutionMethod = "exact" | "synonym" | "substring" | "child_region" | "parent_region" | "fuzzy";
+
+export interface TermCandidate {
+  value: string;
+  score: number;
+  method: ResolutionMethod;
+  /** Synonym or region the candidate was reached through */
+  via?: string;
+}
+
+export interface TermResolution {
+  filter: ResolvableFilter;
+  input: string;
+  /** Values sent to the search; the input itself when unresolved */
+  resolved: string[];
+  method: ResolutionMethod | "unresolved";
+  score: number;
+  /** More values matched than are sent */
+  truncated?: boolean;
+}
+
+// Fuzzy matches below this similarity are shown as candidates but not applied
+export const FUZZY_THRESHOLD = 0.8;
+export const MAX_RESOLVED_VALUES = 25;
+
+const SCORES: Record<Exclude<ResolutionMethod, "fuzzy">, number> = {
+  exact: 1,
+  synonym: 0.95,
+  substring: 0.9,
+  child_region: 0.85,
+  parent_region: 0.7,
+};
+
+/**
+ * Canonical value → alternative names users type
+ */
+const SYNONYMS: Record<ResolvableFilter, Record<string, string[]>> = {
+  species: {
+    "Mus musculus": ["mouse", "mice", "house mouse", "lab mouse", "murine", "NCBITaxon:10090"],
+    "Rattus norvegicus": ["rat", "rats", "brown rat", "norway rat", "NCBITaxon:10116"],
+    "Homo sapiens": ["human", "humans", "people", "patient", "patients", "NCBITaxon:9606"],
+    "Macaca mulatta": ["rhesus", "rhesus macaque", "rhesus monkey", "macaque", "monkey", "NCBITaxon:9544"],
+    "Macaca fascicularis": ["cynomolgus", "crab-eating macaque", "macaque", "monkey"],
+    "Macaca nemestrina": ["pig-tailed macaque", "macaque", "monkey"],
+    "Callithrix jacchus": ["marmoset", "common marmoset"],
+    "Danio rerio": ["zebrafish", "zebra fish"],
+    "Drosophila melanogaster": ["fruit fly", "fly", "drosophila"],
+    "Caenorhabditis elegans": ["c elegans", "worm", "nematode"],
+    "Mustela putorius furo": ["ferret"],
+    "Felis catus": ["cat", "cats"],
+    "Sus scrofa": ["pig", "swine"],
+    "Gallus gallus": ["chicken"],
+    "Taeniopygia guttata": ["zebra finch"],
+    "Xenopus laevis": ["frog", "xenopus", "african clawed frog"],
+    "Oryctolagus cuniculus": ["rabbit"],
+    "Mesocricetus auratus": ["hamster", "golden hamster"],
+  },
+  anatomy: {
+    "Hippocampal formation": ["hippocampus", "hippocampal", "hpc", "hc"],
+    "Field CA1": ["CA1", "CA1 field", "cornu ammonis 1"],
+    "Field CA2": ["CA2", "cornu ammonis 2"],
+    "Field CA3": ["CA3", "cornu ammonis 3"],
+    "Dentate gyrus": ["DG", "dentate"],
+    "Entorhinal area": ["entorhinal cortex", "EC", "MEC", "LEC", "ENT"],
+    "Isocortex": ["neocortex", "cortex", "cerebral cortex"],
+    "Visual areas": ["visual cortex", "visual"],
+    "Primary visual area": ["V1", "VISp", "primary visual cortex", "striate cortex"],
+    "Primary motor area": ["M1", "MOp", "primary motor cortex", "motor cortex"],
+    "Primary somatosensory area": ["S1", "SSp", "somatosensory cortex", "barrel cortex"],
+    "Primary auditory area": ["A1", "AUDp", "auditory cortex"],
+    "Prefrontal cortex": ["PFC", "mPFC", "medial prefrontal cortex"],
+    "Anterior cingulate area": ["ACC", "ACA", "anterior cingulate cortex"],
+    "Retrosplenial area": ["RSC", "RSP", "retrosplenial cortex"],
+    "Thalamus": ["TH", "thalamic"],
+    "Lateral geniculate nucleus": ["LGN", "dLGN", "LGd"],
+    "Striatum": ["STR", "striatal"],
+    "Caudoputamen": ["CP", "dorsal striatum", "caudate putamen"],
+    "Nucleus accumbens": ["NAc", "ACB", "accumbens", "ventral striatum"],
+    "Amygdala": ["BLA", "basolateral amygdala"],
+    "Cerebellum": ["CB", "cerebellar"],
+    "Superior colliculus": ["SC", "SCs", "SCm"],
+    "Ventral tegmental area": ["VTA"],
+    "Hypothalamus": ["HY", "hypothalamic"],
+    "Olfactory bulb": ["OB", "MOB"],
+    "Retina": ["retinal"],
+    "Spinal cord": ["spine"],
+  },
+  approach: {
+    "electrophysiological approach": ["ephys", "electrophysiology", "electrophys", "ecephys", "icephys"],
+    "microscopy approach; cell population imaging": ["imaging", "calcium imaging", "ophys", "optical physiology", "two-photon imaging", "2p imaging"],
+    "behavioral approach": ["behavior", "behaviour", "behavioral", "behavioural"],
+    "optogenetic approach": ["optogenetics", "opto", "optogenetic"],
+    "pharmacological approach": ["pharmacology", "drugs", "pharmacological"],
+    "histological approach": ["histology", "histological"],
+    "microscopy approach; morphological approach": ["morphology", "anatomy imaging"],
+  },
+  measurement_technique: {
+    "multi electrode extracellular electrophysiology recording technique": ["neuropixels", "silicon probe", "multi-electrode", "multielectrode", "MEA", "extracellular", "extracellular electrophysiology", "ecephys"],
+    "single electrode extracellular electrophysiology recording technique": ["single unit", "single electrode", "tetrode"],
+    "patch clamp technique": ["patch clamp", "patch", "whole-cell", "whole cell", "icephys"],
+    "current clamp technique": ["current clamp"],
+    "voltage clamp technique": ["voltage clamp"],
+    "two-photon microscopy technique": ["two-photon", "2-photon", "2p", "2P imaging", "multiphoton"],
+    "one-photon microscopy technique": ["one-photon", "1p", "widefield", "miniscope"],
+    "spike sorting technique": ["spike sorting", "sorting"],
+    "behavioral technique": ["behavior", "behaviour", "behavioral tracking"],
+    "surgical technique": ["surgery", "surgical"],
+    "analytical technique": ["analysis"],
+    "magnetic resonance imaging": ["MRI", "fMRI"],
+    "electroencephalography": ["EEG"],
+    "electrocorticography": ["ECoG"],
+  },
+  disorder: {
+    "Epilepsy": ["epileptic", "seizures", "seizure disorder"],
+    "Alzheimer's disease": ["AD", "alzheimers", "alzheimer"],
+    "Parkinson's disease": ["PD", "parkinsons", "parkinson"],
+    "Autism spectrum disorder": ["autism", "ASD", "autistic"],
+    "Schizophrenia": ["SCZ", "schizophrenic"],
+    "Huntington's disease": ["HD", "huntingtons"],
+  },
+  sex: {
+    "Male": ["M", "males", "man", "men", "PATO:0000384"],
+    "Female": ["F", "females", "woman", "women", "PATO:0000383"],
+    "Unknown": ["U", "unspecified", "not recorded"],
+    "Other": ["O", "intersex"],
+  },
+};
+
+/**
+ * Anatomical region → regions within it, for regions whose names do not
+ * share a substring with their parent
+ */
+const ANATOMY_CHILDREN: Record<string, string[]> = {
+  "Hippocampal formation": ["Hippocampal region", "Ammon's horn", "Field CA1", "Field CA2", "Field CA3", "Dentate gyrus", "Subiculum", "Entorhinal area"],
+  "Ammon's horn": ["Field CA1", "Field CA2", "Field CA3"],
+  "Isocortex": ["Visual areas", "Primary visual area", "Somatomotor areas", "Primary motor area", "Secondary motor area", "Somatosensory areas", "Primary somatosensory area", "Auditory areas", "Primary auditory area", "Prefrontal cortex", "Anterior cingulate area", "Retrosplenial area", "Posterior parietal association areas"],
+  "Visual areas": ["Primary visual area", "Lateral visual area", "Anterolateral visual area", "Posteromedial visual area"],
+  "Somatomotor areas": ["Primary motor area", "Secondary motor area"],
+  "Somatosensory areas": ["Primary somatosensory area", "Supplemental somatosensory area"],
+  "Thalamus": ["Lateral geniculate nucleus", "Medial geniculate nucleus", "Ventral posteromedial nucleus of the thalamus", "Lateral posterior nucleus of the thalamus"],
+  "Striatum": ["Caudoputamen", "Nucleus accumbens", "Olfactory tubercle"],
+  "Basal ganglia": ["Striatum", "Caudoputamen", "Nucleus accumbens", "Globus pallidus", "Substantia nigra"],
+  "Midbrain": ["Superior colliculus", "Inferior colliculus", "Ventral tegmental area", "Substantia nigra", "Periaqueductal gray"],
+};
+
+export function normalizeTerm(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[_\-.,;:()'’/]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const padded = ` ${text} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams, 0..1
+ */
+function dice(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [gram, count] of left) {
+    overlap += Math.min(count, right.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of right.values()) total += count;
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+/**
+ * Similarity of a term to a label, also comparing against runs of the
+ * label's words so "hipocampus" scores well against "Hippocampal formation"
+ */
+export function similarity(term: string, label: string): number {
+  const a = normalizeTerm(term);
+  const b = normalizeTerm(label);
+  let best = dice(a, b);
+  const words = b.split(" ");
+  const width = a.split(" ").length;
+  if (words.length > width) {
+    for (let i = 0; i + width <= words.length; i++) {
+      best = Math.max(best, dice(a, words.slice(i, i + width).join(" ")) * 0.95);
+    }
+  }
+  return Math.round(best * 1000) / 1000;
+}
+
+interface OptionEntry {
+  value: string;
+  keys: string[];
+}
+
+/**
+ * Lookup tables for one filter's live options
+ */
+export class FilterVocabulary {
+  private entries: OptionEntry[];
+  private byKey = new Map<string, string>();
+
+  constructor(readonly filter: ResolvableFilter, options: unknown[]) {
+    this.entries = options.map(option => {
+      const value = optionLabel(option);
+      const record = option && typeof option === "object" ? option as Record<string, unknown> : {};
+      const keys = [value, record.identifier, record.name, record.value]
+        .filter((key): key is string => typeof key === "string" && key.length > 0)
+        .map(normalizeTerm);
+      return { value, keys };
+    });
+    for (const entry of this.entries) {
+      for (const key of entry.keys) if (!this.byKey.has(key)) this.byKey.set(key, entry.value);
+    }
+  }
+
+  private exact(text: string): string | undefined {
+    return this.byKey.get(normalizeTerm(text));
+  }
+
+  private containing(text: string): string[] {
+    const needle = normalizeTerm(text);
+    if (needle.length < 3) return [];
+    return this.entries.filter(entry => entry.keys.some(key => key.includes(needle))).map(entry => entry.value);
+  }
+
+  /**
+   * Options for a canonical name from the bundled tables: the exact option,
+   * or else options containing it
+   */
+  private present(canonical: string): string[] {
+    const exact = this.exact(canonical);
+    return exact ? [exact] : this.containing(canonical);
+  }
+
+  /**
+   * Every candidate value for a term, best first
+   */
+  candidates(term: string): TermCandidate[] {
+    const found = new Map<string, TermCandidate>();
+    const add = (value: string, score: number, method: ResolutionMethod, via?: string) => {
+      const existing = found.get(value);
+      if (!existing || existing.score < score) found.set(value, { value, score, method, ...(via && { via }) });
+    };
+
+    const exact = this.exact(term);
+    if (exact) add(exact, SCORES.exact, "exact");
+
+    const normalized = normalizeTerm(term);
+    const canonicals = Object.entries(SYNONYMS[this.filter])
+      .filter(([canonical, synonyms]) => normalizeTerm(canonical) === normalized || synonyms.some(s => normalizeTerm(s) === normalized))
+      .map(([canonical]) => canonical);
+    for (const canonical of canonicals) {
+      for (const value of this.present(canonical)) add(value, SCORES.synonym, "synonym", canonical);
+    }
+
+    for (const value of this.containing(term)) add(value, SCORES.substring, "substring");
+
+    if (this.filter === "anatomy") {
+      // Sub-regions of every region matched so far, and of synonym regions
+      // that have no option of their own
+      for (const matched of new Set([...[...found.values()].map(candidate => candidate.value), ...canonicals])) {
+        for (const child of descendants(matched)) {
+          for (const value of this.present(child)) add(value, SCORES.child_region, "child_region", matched);
+        }
+      }
+      // A known sub-region without an option of its own falls back to its parents
+      if (found.size === 0) {
+        for (const region of [term, ...canonicals]) {
+          for (const parent of ancestors(region)) {
+            for (const value of this.present(parent)) add(value, SCORES.parent_region, "parent_region", parent);
+          }
+        }
+      }
+    }
+
+    // Misspellings, of an option itself or of a bundled synonym
+    const fuzzy = (value: string, score: number, via?: string) => {
+      const existing = found.get(value);
+      if (existing && existing.method !== "fuzzy") return;
+      if (score >= FUZZY_THRESHOLD / 2) add(value, score, "fuzzy", via);
+    };
+    for (const entry of this.entries) {
+      fuzzy(entry.value, Math.max(...entry.keys.map(key => similarity(term, key))));
+    }
+    for (const [canonical, synonyms] of Object.entries(SYNONYMS[this.filter])) {
+      const score = Math.max(...[canonical, ...synonyms].map(name => similarity(term, name)));
+      for (const value of this.present(canonical)) fuzzy(value, score, canonical);
+    }
+
+    return [...found.values()].sort((a, b) => b.score - a.score || a.value.localeCompare(b.value));
+  }
+
+  /**
+   * The values a search should use for a term: every candidate found by the
+   * best method, plus sub-regions for anatomy. A fuzzy match is used alone,
+   * and only above the threshold.
+   */
+  resolve(term: string): TermResolution {
+    const candidates = this.candidates(term);
+    const best = candidates[0];
+    if (!best || (best.method === "fuzzy" && best.score < FUZZY_THRESHOLD)) {
+      return { filter: this.filter, input: term, resolved: [term], method: "unresolved", score: 0 };
+    }
+
+    const chosen = best.method === "fuzzy"
+      ? [best]
+      : candidates.filter(candidate => candidate.method === best.method || candidate.method === "child_region");
+    return {
+      filter: this.filter,
+      input: term,
+      resolved: chosen.slice(0, MAX_RESOLVED_VALUES).map(candidate => candidate.value),
+      method: best.method,
+      score: best.score,
+      ...(chosen.length > MAX_RESOLVED_VALUES && { truncated: true }),
+    };
+  }
+}
+
+function matchesRegion(region: string, name: string): boolean {
+  const normalized = normalizeTerm(name);
+  return normalizeTerm(region) === normalized ||
+    (SYNONYMS.anatomy[region] ?? []).some(synonym => normalizeTerm(synonym) === normalized);
+}
+
+/**
+ * Regions within `region` (transitively) in the bundled hierarchy
+ */
+function descendants(region: string, seen = new Set<string>()): string[] {
+  const parent = Object.keys(ANATOMY_CHILDREN).find(name => matchesRegion(name, region));
+  if (!parent || seen.has(parent)) return [];
+  seen.add(parent);
+  return ANATOMY_CHILDREN[parent].flatMap(child => [child, ...descendants(child, seen)]);
+}
+
+/**
+ * Regions containing `region`, nearest first
+ */
+function ancestors(region: string): string[] {
+  return Object.entries(ANATOMY_CHILDREN)
+    .filter(([, children]) => children.some(child => matchesRegion(child, region)))
+    .map(([parent]) => parent)
+    .sort((a, b) => ANATOMY_CHILDREN[a].length - ANATOMY_CHILDREN[b].length);
+}
+
+/**
+ * Vocabularies for every resolvable filter present in a filter-options response
+ */
+export function buildVocabularies(filterOptions: Record<string, unknown>): Partial<Record<ResolvableFilter, FilterVocabulary>> {
+  const vocabularies: Partial<Record<ResolvableFilter, FilterVocabulary>> = {};
+  for (const filter of RESOLVABLE_FILTERS) {
+    const options = filterOptions?.[filter];
+    if (Array.isArray(options)) vocabularies[filter] = new FilterVocabulary(filter, options);
+  }
+  return vocabularies;
+}
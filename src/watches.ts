@@ -0,0 +1,243 @@
+/**
+ * Watched searches
+ *
+ * A watch keeps a snapshot of the rows a search (or SQL query) returned,
+ * keyed by their id. Checking the watch re-runs the search and reports the
+ * rows that were added, removed or changed since the snapshot, then makes
+ * the new result the snapshot. Watches live in a local JSON file so they
+ * survive restarts.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export const WATCH_KINDS = ["search_datasets", "search_assets", "sql"] as const;
+
+export type WatchKind = typeof WATCH_KINDS[number];
+
+const WATCH_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,63}$/;
+
+// Arguments that pick the backend or control paging, rendering, response
+// size and facet counts rather than which rows match
+const CONTROL_ARGUMENTS = ["backend", "limit", "offset", "fetch_all", "max_rows", "max_pages", "output_format", "facets", "facet_limit", "fields", "max_chars"];
+
+type Row = Record<string, unknown>;
+
+export interface WatchSnapshot {
+  taken_at: string;
+  row_count: number;
+  /** The search hit max_rows, so rows past the cut-off are not tracked */
+  truncated: boolean;
+  /** Rows by key */
+  rows: Record<string, Row>;
+}
+
+export interface RowChange {
+  key: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+export interface WatchDiff {
+  added: Row[];
+  removed: Row[];
+  changed: RowChange[];
+  unchanged: number;
+}
+
+export interface WatchCheck {
+  checked_at: string;
+  added: number;
+  removed: number;
+  changed: number;
+  /** Lists capped at the check's max_changes */
+  diff: WatchDiff;
+}
+
+export interface Watch {
+  name: string;
+  description?: string;
+  kind: WatchKind;
+  /** Search arguments, for the search kinds */
+  arguments?: Record<string, unknown>;
+  /** For kind "sql" */
+  sql?: string;
+  /** Columns that identify a row */
+  key: string[];
+  backend: string;
+  max_rows?: number;
+  created_at: string;
+  snapshot: WatchSnapshot;
+  last_check?: WatchCheck;
+}
+
+export type WatchInput = Pick<Watch, "name" | "description" | "kind" | "arguments" | "sql"> & {
+  key?: string[];
+  max_rows?: number;
+};
+
+export function validateWatch(input: WatchInput) {
+  if (typeof input.name !== "string" || !WATCH_NAME_PATTERN.test(input.name)) {
+    throw new Error("Watch name must start with a lowercase letter and contain only lowercase letters, digits, '_' or '-' (max 64)");
+  }
+  if (!WATCH_KINDS.includes(input.kind)) {
+    throw new Error(`kind must be one of: ${WATCH_KINDS.join(", ")}`);
+  }
+  if (input.kind === "sql") {
+    if (typeof input.sql !== "string" || !input.sql.trim()) throw new Error("A sql watch needs a sql query");
+    if (input.arguments !== undefined) throw new Error("A sql watch takes sql, not arguments");
+  } else {
+    if (input.sql !== undefined) throw new Error(`A ${input.kind} watch takes arguments, not sql`);
+    if (input.arguments !== undefined && (typeof input.arguments !== "object" || Array.isArray(input.arguments) || input.arguments === null)) {
+      throw new Error("arguments must be an object of search tool arguments");
+    }
+  }
+  if (input.key !== undefined && (!Array.isArray(input.key) || input.key.length === 0 || !input.key.every(k => typeof k === "string" && k))) {
+    throw new Error("key must be a non-empty list of column names");
+  }
+  if (input.max_rows !== undefined && !(Number.isInteger(input.max_rows) && input.max_rows > 0)) {
+    throw new Error("max_rows must be a positive integer");
+  }
+}
+
+/**
+ * Search arguments without backend, paging and rendering options, which a
+ * watch manages itself
+ */
+export function matchingArguments(args: Record<string, unknown> = {}): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).filter(([name]) => !CONTROL_ARGUMENTS.includes(name)));
+}
+
+function rowKey(row: Row, key: string[]): string | undefined {
+  const values = key.map(column => row[column]);
+  if (values.some(value => value === undefined || value === null)) return undefined;
+  return values.map(value => typeof value === "object" ? JSON.stringify(value) : String(value)).join("|");
+}
+
+/**
+ * Key the rows of a search result. Every row must have the key columns.
+ */
+export function takeSnapshot(rows: Row[], key: string[], truncated: boolean): WatchSnapshot {
+  const keyed: Record<string, Row> = {};
+  for (const row of rows) {
+    const id = rowKey(row, key);
+    if (id === undefined) {
+      throw new Error(`Result rows have no ${key.join(", ")} value to identify them; pass key with the identifying column(s)`);
+    }
+    keyed[id] = row;
+  }
+  return { taken_at: new Date().toISOString(), row_count: Object.keys(keyed).length, truncated, rows: keyed };
+}
+
+const fingerprint = (value: unknown) => createHash("sha1").update(JSON.stringify(value) ?? "undefined").digest("hex");
+
+export function diffSnapshots(before: WatchSnapshot, after: WatchSnapshot): WatchDiff {
+  const diff: WatchDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const [key, row] of Object.entries(after.rows)) {
+    const previous = before.rows[key];
+    if (!previous) {
+      diff.added.push(row);
+      continue;
+    }
+    const changes: RowChange["changes"] = {};
+    for (const column of new Set([...Object.keys(previous), ...Object.keys(row)])) {
+      if (fingerprint(previous[column]) !== fingerprint(row[column])) {
+        changes[column] = { before: previous[column], after: row[column] };
+      }
+    }
+    if (Object.keys(changes).length > 0) diff.changed.push({ key, changes });
+    else diff.unchanged++;
+  }
+  for (const [key, row] of Object.entries(before.rows)) {
+    if (!(key in after.rows)) diff.removed.push(row);
+  }
+  return diff;
+}
+
+export function hasChanges(diff: WatchDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+export function summarizeCheck(diff: WatchDiff, maxChanges: number): WatchCheck {
+  return {
+    checked_at: new Date().toISOString(),
+    added: diff.added.length,
+    removed: diff.removed.length,
+    changed: diff.changed.length,
+    diff: {
+      added: diff.added.slice(0, maxChanges),
+      removed: diff.removed.slice(0, maxChanges),
+      changed: diff.changed.slice(0, maxChanges),
+      unchanged: diff.unchanged,
+    },
+  };
+}
+
+export class WatchStore {
+  private watches?: Promise<Map<string, Watch>>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * The watches, read once; concurrent callers share the same read
+   */
+  private load(): Promise<Map<string, Watch>> {
+    this.watches ??= (async () => {
+      let parsed: { watches?: Watch[] } = {};
+      try {
+        parsed = JSON.parse(await readFile(this.filePath, "utf8"));
+      } catch (error: any) {
+        if (error.code !== "ENOENT") {
+          this.watches = undefined;
+          throw new Error(`Failed to read watches from ${this.filePath}: ${error.message}`);
+        }
+      }
+      return new Map((parsed.watches ?? []).map(watch => [watch.name, watch]));
+    })();
+    return this.watches;
+  }
+
+  /**
+   * Write the watches to disk. Writes run one at a time, so concurrent
+   * updates never share the temporary file and the last write has them all.
+   */
+  private persist(): Promise<void> {
+    const write = this.writes.then(async () => {
+      const watches = await this.list();
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify({ watches }));
+      await rename(temporary, this.filePath);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(): Promise<Watch[]> {
+    return [...(await this.load()).values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<Watch | undefined> {
+    return (await this.load()).get(name);
+  }
+
+  async has(name: string): Promise<boolean> {
+    return (await this.load()).has(name);
+  }
+
+  /**
+   * Store a new or updated watch
+   */
+  async put(watch: Watch): Promise<void> {
+    (await this.load()).set(watch.name, watch);
+    await this.persist();
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const watches = await this.load();
+    if (!watches.delete(name)) return false;
+    await this.persist();
+    return true;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { ageMatches, buildAgeFilter, parseAge, parseAgeBound } from "../src/age.js";
+
+describe("parseAge", () => {
+  it.each([
+    ["P90D", 90, 90],
+    ["P12W", 84, 84],
+    ["P1Y", 365.25, 365.25],
+    ["P1M15D", 45.438, 45.438],
+    ["PT12H", 0.5, 0.5],
+    ["p2w", 14, 14],
+    ["8 weeks", 56, 56],
+    ["3 months", 91.313, 91.313],
+    ["P21", 21, 21],
+  ])("parses %s", (raw, min, max) => {
+    expect(parseAge(raw)).toEqual({ min_days: min, max_days: max, reference: "birth" });
+  });
+
+  it.each([
+    ["P8W/P16W", 56, 112],
+    ["8-16 weeks", 56, 112],
+    ["8 weeks to 16 weeks", 56, 112],
+    ["P8W-P16W", 56, 112],
+    ["P8W/", 56, null],
+  ])("parses the range %s", (raw, min, max) => {
+    expect(parseAge(raw)).toEqual({ min_days: min, max_days: max, reference: "birth" });
+  });
+
+  it("reads gestational ages from embryonic notation and reference words", () => {
+    expect(parseAge("E15.5")).toEqual({ min_days: 15.5, max_days: 15.5, reference: "gestational" });
+    expect(parseAge("P20W gestational")).toMatchObject({ min_days: 140, reference: "gestational" });
+  });
+
+  it("reads the DANDI JSON form with its valueReference", () => {
+    expect(parseAge('{"value": "P90D", "valueReference": "dandi:GestationalReference"}'))
+      .toEqual({ min_days: 90, max_days: 90, reference: "gestational" });
+    expect(parseAge('{"value": "P90D", "valueReference": "dandi:BirthReference"}'))
+      .toEqual({ min_days: 90, max_days: 90, reference: "birth" });
+  });
+
+  it("ignores qualifiers and parenthesized notes", () => {
+    expect(parseAge("approx. 8 weeks old")).toMatchObject({ min_days: 56, max_days: 56 });
+    expect(parseAge("P60D (estimated)")).toMatchObject({ min_days: 60, max_days: 60 });
+  });
+
+  it.each([null, undefined, "", "adult", "unknown", "P", "{not json", "12 parsecs"])("returns undefined for %s", raw => {
+    expect(parseAge(raw)).toBeUndefined();
+  });
+});
+
+describe("parseAgeBound", () => {
+  it("accepts days, durations and text", () => {
+    expect(parseAgeBound("min_age", 56)).toBe(56);
+    expect(parseAgeBound("min_age", "P8W")).toBe(56);
+    expect(parseAgeBound("min_age", "8 weeks")).toBe(56);
+    expect(parseAgeBound("min_age", undefined)).toBeUndefined();
+  });
+
+  it("rejects negative numbers, ranges and unparseable text", () => {
+    expect(() => parseAgeBound("min_age", -1)).toThrow(/non-negative/);
+    expect(() => parseAgeBound("max_age", "P8W/P16W")).toThrow(/single age/);
+    expect(() => parseAgeBound("max_age", "adult")).toThrow(/single age/);
+  });
+});
+
+describe("buildAgeFilter", () => {
+  it("returns undefined without bounds", () => {
+    expect(buildAgeFilter(undefined, undefined, undefined)).toBeUndefined();
+  });
+
+  it("validates the bounds and reference", () => {
+    expect(buildAgeFilter("8 weeks", "16 weeks", undefined)).toEqual({ min_days: 56, max_days: 112, reference: "birth" });
+    expect(() => buildAgeFilter(100, 50, undefined)).toThrow(/must not exceed/);
+    expect(() => buildAgeFilter(1, undefined, "conception")).toThrow(/age_reference/);
+  });
+});
+
+describe("ageMatches", () => {
+  const filter = { min_days: 56, max_days: 112, reference: "birth" as const };
+
+  it("matches single ages within the bounds", () => {
+    expect(ageMatches(parseAge("P90D")!, filter)).toBe(true);
+    expect(ageMatches(parseAge("P30D")!, filter)).toBe(false);
+    expect(ageMatches(parseAge("P200D")!, filter)).toBe(false);
+  });
+
+  it("matches ranges only when both ends are within the bounds", () => {
+    expect(ageMatches(parseAge("P8W/P16W")!, filter)).toBe(true);
+    expect(ageMatches(parseAge("P4W/P16W")!, filter)).toBe(false);
+    expect(ageMatches(parseAge("P8W/")!, filter)).toBe(false);
+    expect(ageMatches(parseAge("P8W/")!, { min_days: 56, reference: "birth" })).toBe(true);
+  });
+
+  it("never matches across reference points", () => {
+    expect(ageMatches(parseAge("E15.5")!, { min_days: 10, reference: "birth" })).toBe(false);
+    expect(ageMatches(parseAge("E15.5")!, { min_days: 10, reference: "gestational" })).toBe(true);
+  });
+});
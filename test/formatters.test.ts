@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { findRowsKey, formatTable, toCompact, toTabular } from "../src/formatters.js";
+
+const table = {
+  columns: ["id", "path", "variable_measured", "note"],
+  rows: [
+    { id: 1, path: "sub-1/a.nwb", variable_measured: ["ElectricalSeries"], note: null },
+    { id: 2, path: 'with "quotes", commas\nand lines', variable_measured: null, note: "" },
+  ],
+};
+
+describe("toTabular", () => {
+  it("collects columns from objects in order of appearance", () => {
+    expect(toTabular([{ a: 1 }, { b: 2, a: 3 }])).toEqual({ columns: ["a", "b"], rows: [{ a: 1 }, { b: 2, a: 3 }] });
+  });
+
+  it("pairs array rows with the column list", () => {
+    expect(toTabular([[1, "x", true]], ["id", "name"])).toEqual({
+      columns: ["id", "name", "column_3"],
+      rows: [{ id: 1, name: "x", column_3: true }],
+    });
+  });
+
+  it("wraps scalars in a value column", () => {
+    expect(toTabular([1, "a"])).toEqual({ columns: ["value"], rows: [{ value: 1 }, { value: "a" }] });
+  });
+});
+
+describe("findRowsKey", () => {
+  it("finds the row array of a backend response", () => {
+    expect(findRowsKey({ success: true, results: [] })).toBe("results");
+    expect(findRowsKey({ rows: [{}] })).toBe("rows");
+    expect(findRowsKey({ count: 1 })).toBeUndefined();
+    expect(findRowsKey(null)).toBeUndefined();
+  });
+});
+
+describe("formatTable", () => {
+  it("renders RFC 4180 CSV, keeping NULL and empty strings apart", () => {
+    expect(formatTable(table, "csv")).toBe(
+      "id,path,variable_measured,note\r\n" +
+      '1,sub-1/a.nwb,"[""ElectricalSeries""]",\r\n' +
+      '2,"with ""quotes"", commas\nand lines",,""\r\n'
+    );
+  });
+
+  it("quotes CSV fields with leading or trailing whitespace", () => {
+    expect(formatTable({ columns: ["a"], rows: [{ a: " padded " }] }, "csv")).toBe('a\r\n" padded "\r\n');
+  });
+
+  it("renders NDJSON with every column on every line", () => {
+    expect(formatTable({ columns: ["a", "b"], rows: [{ a: 1 }, { a: 2, b: [1] }] }, "ndjson"))
+      .toBe('{"a":1,"b":null}\n{"a":2,"b":[1]}');
+  });
+
+  it("renders markdown with escaped pipes and line breaks", () => {
+    expect(formatTable({ columns: ["a", "b"], rows: [{ a: "x|y", b: null }, { a: "1\n2", b: { k: 1 } }] }, "markdown")).toBe(
+      "| a | b |\n| --- | --- |\n| x\\|y | NULL |\n| 1<br>2 | {\"k\":1} |"
+    );
+    expect(formatTable({ columns: [], rows: [] }, "markdown")).toBe("_No rows_");
+  });
+
+  it("renders compact JSON as columns plus value arrays", () => {
+    expect(toCompact({ columns: ["a", "b"], rows: [{ a: 1 }] })).toEqual({ columns: ["a", "b"], rows: [[1, null]] });
+    expect(JSON.parse(formatTable({ columns: ["a"], rows: [{ a: 1 }] }, "compact_json"))).toEqual({ columns: ["a"], rows: [[1]] });
+  });
+});
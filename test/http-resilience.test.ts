@@ -0,0 +1,123 @@
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from "axios";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { backoffDelay, BackendUnavailableError, CircuitBreaker, isRetryable } from "../src/http-resilience.js";
+
+const failure = (
+  config: Partial<InternalAxiosRequestConfig>,
+  outcome: { status?: number; code?: string }
+) => {
+  const request = { headers: new AxiosHeaders(), ...config } as InternalAxiosRequestConfig;
+  const response = outcome.status === undefined ? undefined : {
+    status: outcome.status,
+    statusText: "",
+    headers: {},
+    config: request,
+    data: {},
+  };
+  return new AxiosError("failed", outcome.code, request, {}, response);
+};
+
+describe("isRetryable", () => {
+  it("retries GET requests on network errors, timeouts and transient statuses", () => {
+    expect(isRetryable(failure({ method: "get" }, { code: "ECONNRESET" }))).toBe(true);
+    expect(isRetryable(failure({ method: "get" }, { code: AxiosError.ECONNABORTED }))).toBe(true);
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      expect(isRetryable(failure({ method: "get" }, { status }))).toBe(true);
+    }
+  });
+
+  it("does not retry client errors", () => {
+    for (const status of [400, 401, 403, 404]) {
+      expect(isRetryable(failure({ method: "get" }, { status }))).toBe(false);
+    }
+  });
+
+  it("never retries canceled requests", () => {
+    expect(isRetryable(failure({ method: "get" }, { code: AxiosError.ERR_CANCELED }))).toBe(false);
+  });
+
+  it("does not retry POSTs that are not flagged idempotent", () => {
+    expect(isRetryable(failure({ method: "post" }, { status: 503 }))).toBe(false);
+    expect(isRetryable(failure({ method: "post" }, { code: "ECONNRESET" }))).toBe(false);
+  });
+
+  it("retries idempotent POSTs only when the server turned them away", () => {
+    for (const status of [429, 502, 503, 504]) {
+      expect(isRetryable(failure({ method: "post", idempotent: true }, { status }))).toBe(true);
+    }
+    // The query may have run, or may still be running
+    for (const status of [408, 500]) {
+      expect(isRetryable(failure({ method: "post", idempotent: true }, { status }))).toBe(false);
+    }
+    expect(isRetryable(failure({ method: "post", idempotent: true }, { code: AxiosError.ECONNABORTED }))).toBe(false);
+    expect(isRetryable(failure({ method: "post", idempotent: true }, { code: AxiosError.ETIMEDOUT }))).toBe(false);
+    expect(isRetryable(failure({ method: "post", idempotent: true }, { code: "ECONNRESET" }))).toBe(false);
+  });
+});
+
+describe("backoffDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const policy = {
+    maxRetries: 3,
+    retryBaseDelayMs: 100,
+    retryMaxDelayMs: 1000,
+    rateLimit: 0,
+    circuitFailureThreshold: 0,
+    circuitResetMs: 0,
+  };
+
+  it("grows exponentially up to the maximum delay", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect([0, 1, 2, 3, 4, 10].map(attempt => backoffDelay(attempt, policy))).toEqual([100, 200, 400, 800, 1000, 1000]);
+  });
+
+  it("draws the delay uniformly from zero", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(3, policy)).toBe(0);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens after the threshold and lets one trial through after the cool-down", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(2, 1000);
+    breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+    expect(() => breaker.check()).toThrow(BackendUnavailableError);
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe("half_open");
+    expect(() => breaker.check()).not.toThrow();
+    expect(() => breaker.check()).toThrow(BackendUnavailableError);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe("closed");
+    expect(breaker.consecutiveFailures).toBe(0);
+  });
+
+  it("re-opens when the trial request fails", () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker(1, 1000);
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.check();
+    breaker.recordFailure();
+    expect(breaker.state).toBe("open");
+  });
+
+  it("never opens with a threshold of 0", () => {
+    const breaker = new CircuitBreaker(0, 1000);
+    for (let i = 0; i < 10; i++) breaker.recordFailure();
+    expect(breaker.state).toBe("closed");
+    expect(() => breaker.check()).not.toThrow();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { explainStatement, parsePlan, planWarnings } from "../src/query-plan.js";
+
+const jsonPlan = [{
+  "Plan": {
+    "Node Type": "Aggregate",
+    "Startup Cost": 5000,
+    "Total Cost": 5200.5,
+    "Plan Rows": 1,
+    "Plan Width": 8,
+    "Plans": [{
+      "Node Type": "Seq Scan",
+      "Relation Name": "dandisets_asset",
+      "Alias": "a",
+      "Startup Cost": 0,
+      "Total Cost": 5000,
+      "Plan Rows": 250000,
+      "Plan Width": 0,
+      "Filter": "(path ~~* '%ecephys%'::text)",
+    }],
+  },
+}];
+
+describe("explainStatement", () => {
+  it("wraps the query and drops a trailing semicolon", () => {
+    expect(explainStatement("SELECT 1;  ")).toBe("EXPLAIN (FORMAT JSON) SELECT 1");
+    expect(explainStatement("SELECT 1", true)).toBe("EXPLAIN (FORMAT JSON, ANALYZE) SELECT 1");
+  });
+});
+
+describe("parsePlan", () => {
+  it("parses a JSON plan given as a value", () => {
+    const parsed = parsePlan([{ "QUERY PLAN": jsonPlan }]);
+    expect(parsed).toMatchObject({ total_cost: 5200.5, estimated_rows: 1, analyzed: false });
+    expect(parsed.plan.children[0]).toEqual({
+      node_type: "Seq Scan",
+      relation: "dandisets_asset",
+      alias: "a",
+      startup_cost: 0,
+      total_cost: 5000,
+      estimated_rows: 250000,
+      width: 0,
+      filter: "(path ~~* '%ecephys%'::text)",
+      children: [],
+    });
+  });
+
+  it("parses a JSON plan given as a string, with ANALYZE timings", () => {
+    const analyzed = [{
+      "Plan": { ...jsonPlan[0].Plan, "Actual Rows": 1, "Actual Total Time": 120.3, "Actual Loops": 1, "Plans": [] },
+      "Planning Time": 0.2,
+      "Execution Time": 121,
+    }];
+    const parsed = parsePlan([{ "QUERY PLAN": JSON.stringify(analyzed) }]);
+    expect(parsed).toMatchObject({ analyzed: true, planning_time_ms: 0.2, execution_time_ms: 121 });
+    expect(parsed.plan).toMatchObject({ actual_rows: 1, actual_time_ms: 120.3, loops: 1 });
+  });
+
+  it("leaves out an alias equal to the relation name", () => {
+    const plan = [{ "Plan": { "Node Type": "Seq Scan", "Relation Name": "t", "Alias": "t", "Total Cost": 1, "Plan Rows": 1 } }];
+    expect(parsePlan([{ plan }]).plan).not.toHaveProperty("alias");
+  });
+
+  it("folds text plans into a tree by indentation", () => {
+    const parsed = parsePlan([
+      "Hash Join  (cost=10.00..50000.00 rows=2000000 width=8) (actual time=0.1..900.5 rows=5 loops=1)",
+      "  Hash Cond: (x = y)",
+      "  ->  Seq Scan on dandisets_participant p  (cost=0.00..20.00 rows=1000 width=4)",
+      "        Filter: (age IS NOT NULL)",
+      "  ->  Hash  (cost=5.00..5.00 rows=100 width=4)",
+      "        ->  Seq Scan on dandisets_speciestype st  (cost=0.00..5.00 rows=100 width=4)",
+    ].map(line => ({ "QUERY PLAN": line })));
+
+    expect(parsed).toMatchObject({ total_cost: 50000, estimated_rows: 2000000, analyzed: true });
+    expect(parsed.plan).toMatchObject({ node_type: "Hash Join", actual_rows: 5, actual_time_ms: 900.5, loops: 1 });
+    const [scan, hash] = parsed.plan.children;
+    expect(scan).toMatchObject({ node_type: "Seq Scan", relation: "dandisets_participant", alias: "p", filter: "(age IS NOT NULL)" });
+    expect(hash.node_type).toBe("Hash");
+    expect(hash.children[0]).toMatchObject({ relation: "dandisets_speciestype", alias: "st" });
+  });
+
+  it("rejects output it does not recognize", () => {
+    expect(() => parsePlan([{ "QUERY PLAN": "not a plan" }])).toThrow(/Unrecognized EXPLAIN output/);
+    expect(() => parsePlan([])).toThrow(/Unrecognized EXPLAIN output/);
+  });
+});
+
+describe("planWarnings", () => {
+  it("warns about sequential scans of large tables", () => {
+    const warnings = planWarnings(parsePlan([{ plan: jsonPlan }]).plan);
+    expect(warnings).toEqual([expect.objectContaining({ code: "seq_scan_large_table", node: "Seq Scan on dandisets_asset a" })]);
+  });
+
+  it("warns about big nested loops, scans returning many rows and misestimates", () => {
+    const node = (fields: Record<string, unknown>) => ({ node_type: "Result", startup_cost: 0, total_cost: 1, estimated_rows: 1, children: [], ...fields });
+    const codes = planWarnings(node({
+      node_type: "Nested Loop",
+      estimated_rows: 2000000,
+      children: [
+        node({ node_type: "Seq Scan", relation: "dandisets_participant", estimated_rows: 200000 }),
+        node({ node_type: "Index Scan", relation: "dandisets_dandiset", estimated_rows: 10, actual_rows: 5000 }),
+      ],
+    })).map(w => w.code);
+    expect(codes).toEqual(["large_nested_loop", "seq_scan_many_rows", "misestimate"]);
+  });
+
+  it("has nothing to say about small plans", () => {
+    expect(planWarnings(parsePlan(["Seq Scan on dandisets_speciestype  (cost=0.00..5.00 rows=100 width=4)"].map(line => ({ line }))).plan)).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  bindArguments,
+  bindSql,
+  resolveParameters,
+  SavedQuery,
+  sqlForAnalysis,
+  toSqlLiteral,
+  validateSavedQuery,
+} from "../src/saved-queries.js";
+
+const query = (sql: string, parameters: SavedQuery["parameters"]): SavedQuery => ({
+  name: "test-query",
+  kind: "sql",
+  sql,
+  parameters,
+  created_at: "2024-01-01T00:00:00.000Z",
+  updated_at: "2024-01-01T00:00:00.000Z",
+});
+
+describe("toSqlLiteral", () => {
+  it("quotes strings and doubles embedded quotes", () => {
+    expect(toSqlLiteral("string", "mouse")).toBe("'mouse'");
+    expect(toSqlLiteral("string", "O'Brien'); DROP TABLE x; --")).toBe("'O''Brien''); DROP TABLE x; --'");
+  });
+
+  it("renders numbers, parenthesizing negatives", () => {
+    expect(toSqlLiteral("integer", 42)).toBe("42");
+    expect(toSqlLiteral("integer", -5)).toBe("(-5)");
+    expect(toSqlLiteral("number", 1.5)).toBe("1.5");
+  });
+
+  it("renders booleans and dates", () => {
+    expect(toSqlLiteral("boolean", true)).toBe("TRUE");
+    expect(toSqlLiteral("boolean", false)).toBe("FALSE");
+    expect(toSqlLiteral("date", "2024-02-29")).toBe("DATE '2024-02-29'");
+  });
+
+  it("renders lists for IN (...), with NULL for an empty list", () => {
+    expect(toSqlLiteral("string_list", ["a", "b'c"])).toBe("'a', 'b''c'");
+    expect(toSqlLiteral("integer_list", [1, -2])).toBe("1, (-2)");
+    expect(toSqlLiteral("integer_list", [])).toBe("NULL");
+  });
+});
+
+describe("resolveParameters", () => {
+  const saved = query("SELECT * FROM t WHERE id = {{id}} AND name = {{name}} LIMIT {{n}}", [
+    { name: "id", type: "integer" },
+    { name: "name", type: "string" },
+    { name: "n", type: "integer", default: 10 },
+  ]);
+
+  it("coerces values to their declared types and applies defaults", () => {
+    expect(resolveParameters(saved, { id: "7", name: "x" })).toEqual({ id: 7, name: "x", n: 10 });
+  });
+
+  it("rejects missing, unknown and mistyped values", () => {
+    expect(() => resolveParameters(saved, { name: "x" })).toThrow(/Missing required parameter 'id'/);
+    expect(() => resolveParameters(saved, { id: 1, name: "x", extra: 1 })).toThrow(/Unknown parameter 'extra'/);
+    expect(() => resolveParameters(saved, { id: "1 OR 1=1", name: "x" })).toThrow(/must be an integer/);
+    expect(() => resolveParameters(saved, { id: 1, name: 5 })).toThrow(/must be a string/);
+  });
+
+  it("checks dates and booleans", () => {
+    const dated = query("SELECT {{d}}, {{b}}", [{ name: "d", type: "date" }, { name: "b", type: "boolean" }]);
+    expect(resolveParameters(dated, { d: "2024-01-31", b: "true" })).toEqual({ d: "2024-01-31", b: true });
+    expect(() => resolveParameters(dated, { d: "2024-01-31'--", b: true })).toThrow(/YYYY-MM-DD/);
+    expect(() => resolveParameters(dated, { d: "2024-01-31", b: "yes" })).toThrow(/must be a boolean/);
+  });
+});
+
+describe("bindSql", () => {
+  it("replaces every placeholder with a typed literal", () => {
+    const saved = query(
+      "SELECT * FROM t WHERE species IN ({{species}}) AND size > {{min_size}} AND name = {{ name }} LIMIT 5",
+      [
+        { name: "species", type: "string_list" },
+        { name: "min_size", type: "number" },
+        { name: "name", type: "string" },
+      ]
+    );
+    const values = resolveParameters(saved, { species: ["Mus musculus", "Rattus"], min_size: -1, name: "a'b" });
+    expect(bindSql(saved, values)).toBe(
+      "SELECT * FROM t WHERE species IN ('Mus musculus', 'Rattus') AND size > (-1) AND name = 'a''b' LIMIT 5"
+    );
+  });
+
+  it("binds a value used more than once at each use", () => {
+    const saved = query("SELECT {{x}} + {{x}}", [{ name: "x", type: "integer" }]);
+    expect(bindSql(saved, { x: 2 })).toBe("SELECT 2 + 2");
+  });
+});
+
+describe("sqlForAnalysis", () => {
+  it("replaces placeholders with NULL", () => {
+    expect(sqlForAnalysis("SELECT * FROM t WHERE id = {{id}} AND x IN ({{ids}})")).toBe("SELECT * FROM t WHERE id = NULL AND x IN (NULL)");
+  });
+});
+
+describe("validateSavedQuery", () => {
+  const base = { name: "q", kind: "sql" as const, parameters: [{ name: "x", type: "string" as const }] };
+
+  it("accepts placeholders used as expressions", () => {
+    expect(() => validateSavedQuery({ ...base, sql: "SELECT * FROM t WHERE name ILIKE '%' || {{x}} || '%'" })).not.toThrow();
+  });
+
+  it("rejects placeholders inside quoted text or comments", () => {
+    expect(() => validateSavedQuery({ ...base, sql: "SELECT * FROM t WHERE name = '{{x}}'" })).toThrow(/inside a quoted string/);
+    expect(() => validateSavedQuery({ ...base, sql: "SELECT 1 -- {{x}}" })).toThrow(/inside a quoted string/);
+    expect(() => validateSavedQuery({ ...base, sql: "SELECT $$ {{x}} $$" })).toThrow(/inside a quoted string/);
+  });
+
+  it("requires declared and used parameters to agree", () => {
+    expect(() => validateSavedQuery({ ...base, sql: "SELECT 1" })).toThrow(/declared but never used/);
+    expect(() => validateSavedQuery({ ...base, sql: "SELECT {{x}}, {{y}}" })).toThrow(/no parameter definition/);
+  });
+
+  it("validates defaults against their types", () => {
+    expect(() => validateSavedQuery({
+      name: "q",
+      kind: "sql",
+      sql: "SELECT {{n}}",
+      parameters: [{ name: "n", type: "integer", default: "ten" }],
+    })).toThrow(/must be an integer/);
+  });
+
+  it("only allows whole-value placeholders in search arguments", () => {
+    expect(() => validateSavedQuery({
+      name: "q",
+      kind: "search_assets",
+      arguments: { species: ["{{species}}"] },
+      parameters: [{ name: "species", type: "string_list" }],
+    })).not.toThrow();
+    expect(() => validateSavedQuery({
+      name: "q",
+      kind: "search_assets",
+      arguments: { name: "prefix {{x}}" },
+      parameters: [{ name: "x", type: "string" }],
+    })).toThrow(/mixes a placeholder with text/);
+  });
+});
+
+describe("bindArguments", () => {
+  it("substitutes typed values and flattens list parameters into arrays", () => {
+    const saved: SavedQuery = {
+      ...query("", [{ name: "species", type: "string_list" }, { name: "limit", type: "integer" }]),
+      kind: "search_assets",
+      sql: undefined,
+      arguments: { species: ["Homo sapiens", "{{species}}"], limit: "{{limit}}", name: "fixed" },
+    };
+    expect(bindArguments(saved, { species: ["Mus musculus", "Rattus"], limit: 5 })).toEqual({
+      species: ["Homo sapiens", "Mus musculus", "Rattus"],
+      limit: 5,
+      name: "fixed",
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSql, MAX_SQL_LENGTH, SqlAnalyzerOptions } from "../src/sql-analyzer.js";
+
+const TABLES = ["dandisets_dandiset", "dandisets_asset", "dandisets_assetdandiset", "dandisets_participant"];
+
+const codes = (sql: string, options: SqlAnalyzerOptions = { allowedTables: TABLES }) =>
+  analyzeSql(sql, options).diagnostics.map(d => d.code);
+
+describe("analyzeSql", () => {
+  it("accepts a plain SELECT and lists its tables", () => {
+    const analysis = analyzeSql("SELECT d.id, d.name FROM dandisets_dandiset d WHERE d.id = 1 LIMIT 10", { allowedTables: TABLES });
+    expect(analysis.valid).toBe(true);
+    expect(analysis.statement_type).toBe("SELECT");
+    expect(analysis.tables).toEqual(["dandisets_dandiset"]);
+    expect(analysis.diagnostics).toEqual([]);
+  });
+
+  it("accepts WITH queries without treating CTE names as tables", () => {
+    const analysis = analyzeSql(
+      "WITH recent AS (SELECT id FROM dandisets_dandiset LIMIT 5) SELECT * FROM recent LIMIT 5",
+      { allowedTables: TABLES }
+    );
+    expect(analysis.valid).toBe(true);
+    expect(analysis.statement_type).toBe("WITH");
+    expect(analysis.tables).toEqual(["dandisets_dandiset"]);
+  });
+
+  it("rejects empty and overlong queries", () => {
+    expect(codes("   ")).toEqual(["EMPTY_QUERY"]);
+    expect(codes("-- nothing here")).toEqual(["EMPTY_QUERY"]);
+    expect(codes(`SELECT 1 ${" ".repeat(MAX_SQL_LENGTH)}`)).toContain("QUERY_TOO_LONG");
+  });
+
+  it("rejects statements other than SELECT and WITH", () => {
+    expect(codes("DELETE FROM dandisets_asset")).toEqual(expect.arrayContaining(["NOT_READ_ONLY", "FORBIDDEN_KEYWORD"]));
+    expect(codes("COMMENT ON TABLE dandisets_asset IS 'x'")).toEqual(expect.arrayContaining(["NOT_READ_ONLY", "FORBIDDEN_KEYWORD"]));
+    expect(analyzeSql("VACUUM").valid).toBe(false);
+  });
+
+  it("rejects data-modifying statements inside WITH", () => {
+    expect(codes("WITH gone AS (DELETE FROM dandisets_asset RETURNING id) SELECT * FROM gone LIMIT 1")).toContain("FORBIDDEN_KEYWORD");
+    expect(codes("WITH x AS (SELECT 1) UPDATE dandisets_asset SET path = ''")).toContain("FORBIDDEN_KEYWORD");
+  });
+
+  it("treats keyword-like column names and aliases as identifiers", () => {
+    expect(analyzeSql(
+      "SELECT x.comment, x.lock AS lock, reset FROM dandisets_asset x LIMIT 5",
+      { allowedTables: TABLES }
+    ).valid).toBe(true);
+  });
+
+  it("ignores keywords inside strings and comments", () => {
+    expect(analyzeSql(
+      "SELECT 'DROP TABLE x; DELETE' AS text /* UPDATE */ FROM dandisets_asset -- INSERT\nLIMIT 1",
+      { allowedTables: TABLES }
+    ).valid).toBe(true);
+    expect(analyzeSql("SELECT $$DELETE$$ FROM dandisets_asset LIMIT 1", { allowedTables: TABLES }).valid).toBe(true);
+  });
+
+  it("rejects multiple statements", () => {
+    expect(codes("SELECT 1; DROP TABLE dandisets_asset")).toContain("MULTIPLE_STATEMENTS");
+    expect(analyzeSql("SELECT 1 FROM dandisets_asset LIMIT 1;", { allowedTables: TABLES }).valid).toBe(true);
+  });
+
+  it("rejects dangerous functions, quoted or not, in any position", () => {
+    expect(codes("SELECT pg_sleep(30)")).toContain("DANGEROUS_FUNCTION");
+    expect(codes('SELECT "pg_sleep"(30)')).toContain("DANGEROUS_FUNCTION");
+    expect(codes(`SELECT "pg_read_file"('/etc/passwd')`)).toContain("DANGEROUS_FUNCTION");
+    expect(codes("SELECT pg_catalog.pg_sleep(1)")).toContain("DANGEROUS_FUNCTION");
+    expect(codes("SELECT * FROM pg_read_file('/etc/passwd') f LIMIT 1")).toContain("DANGEROUS_FUNCTION");
+  });
+
+  it("rejects row locking and SELECT INTO", () => {
+    expect(codes("SELECT * FROM dandisets_asset LIMIT 1 FOR SHARE")).toContain("ROW_LOCKING");
+    expect(codes("SELECT * FROM dandisets_asset LIMIT 1 FOR UPDATE")).toContain("FORBIDDEN_KEYWORD");
+    expect(codes("SELECT * INTO copy FROM dandisets_asset")).toContain("SELECT_INTO");
+  });
+
+  it("reports unbalanced parentheses and unterminated literals", () => {
+    expect(codes("SELECT (1 FROM dandisets_asset")).toContain("UNBALANCED_PARENS");
+    expect(codes("SELECT 1) FROM dandisets_asset")).toContain("UNBALANCED_PARENS");
+    expect(codes("SELECT 'open FROM dandisets_asset")).toContain("UNTERMINATED_STRING");
+    expect(codes("SELECT 1 /* open")).toContain("UNTERMINATED_COMMENT");
+  });
+
+  it("checks tables against the allow-list", () => {
+    expect(codes("SELECT * FROM pg_shadow LIMIT 1")).toContain("UNKNOWN_TABLE");
+    expect(codes("SELECT * FROM public.dandisets_asset LIMIT 1")).not.toContain("UNKNOWN_TABLE");
+    expect(codes("SELECT * FROM anything LIMIT 1", {})).toEqual(["TABLES_UNVERIFIED"]);
+  });
+
+  it("warns about cartesian products and joins without conditions", () => {
+    expect(codes("SELECT * FROM dandisets_asset a, dandisets_dandiset d LIMIT 5")).toContain("CARTESIAN_JOIN");
+    expect(codes("SELECT * FROM dandisets_asset a CROSS JOIN dandisets_dandiset d LIMIT 5")).toContain("CARTESIAN_JOIN");
+    expect(codes("SELECT * FROM dandisets_asset a JOIN dandisets_dandiset d LIMIT 5")).toContain("JOIN_WITHOUT_CONDITION");
+    expect(codes("SELECT * FROM dandisets_asset a, dandisets_dandiset d WHERE a.id = d.id LIMIT 5")).toEqual([]);
+  });
+
+  it("does not treat set-returning functions over earlier FROM items as cartesian joins", () => {
+    expect(codes("SELECT v FROM dandisets_asset a, jsonb_array_elements(a.variable_measured) v LIMIT 5")).toEqual([]);
+    expect(codes("SELECT v FROM dandisets_asset AS a, LATERAL jsonb_array_elements(a.variable_measured) AS v LIMIT 5")).toEqual([]);
+    expect(codes("SELECT v FROM dandisets_asset a, generate_series(1, 3) v LIMIT 5")).toContain("CARTESIAN_JOIN");
+  });
+
+  it("warns about unaggregated queries without LIMIT", () => {
+    expect(codes("SELECT * FROM dandisets_asset")).toEqual(["MISSING_LIMIT"]);
+    expect(codes("SELECT COUNT(*) FROM dandisets_asset")).toEqual([]);
+    expect(codes("SELECT dandiset_id FROM dandisets_assetdandiset GROUP BY dandiset_id")).toEqual([]);
+  });
+
+  it("reports 1-based line and column positions", () => {
+    const [diagnostic] = analyzeSql("SELECT id\nFROM dandisets_asset\nWHERE pg_sleep(1) IS NULL LIMIT 1", { allowedTables: TABLES }).diagnostics;
+    expect(diagnostic).toMatchObject({ code: "DANGEROUS_FUNCTION", severity: "error", line: 3, column: 7 });
+  });
+});